@@ -0,0 +1,259 @@
+import { readFile, writeFile, glob } from 'node:fs/promises'
+import { readFileSync } from 'node:fs'
+import { dirname, resolve, relative } from 'node:path'
+import { parseArgs } from 'node:util'
+import { createTwoFilesPatch } from 'diff'
+import { analyzeComponent, createReport, formatReport } from './core/report'
+import { convertSfc } from './core/sfc'
+import { findVueVersion, getComponentName, getEditorConfigFormat, getFileType, supportsPropsDestructure } from './shared'
+import type { ComponentReport, ConvertOptions, FormatOptions } from './types'
+
+const HELP = `Usage: vue-prop-konverter [options] [globs...]
+
+Converts object-style defineProps({}) and runtime defineEmits() in Vue SFCs
+to type-safe defineProps<{}>() and defineEmits<{}>().
+
+Arguments:
+  globs          Files to convert (default: "**/*.vue", node_modules excluded),
+                 .ts and .tsx files are converted as a whole script
+
+Options:
+  --dry-run      Report which files would change without writing them
+  --check        Exit with code 1 if any file still has object-style defineProps
+                 or runtime defineEmits (implies --dry-run)
+  --diff         Print a unified diff of every change
+  --report <markdown|json>
+                 Print a migration report instead of converting: object-style props,
+                 props typed as any, validators, dynamic props and runtime emits
+                 per component, with totals per directory
+  --validator-fallback <comment|runtime>
+                 How validators that can't become a type are kept (default: comment)
+  --props-declaration <inline|interface|type>
+                 Declare the props type inline or as an exported <Component>Props (default: inline)
+  --defaults-style <auto|destructure|withDefaults>
+                 Declare defaults with reactive props destructure (Vue 3.5+) or withDefaults(),
+                 auto picks it from the project's Vue version (default: auto)
+  --emits-declaration <tuple|callSignature>
+                 Declare emits as named tuples (Vue 3.3+) or call signatures (default: tuple)
+  --javascript <off|jsdoc|typescript>
+                 Leave <script setup> blocks without lang="ts" alone, document their props
+                 with a JSDoc @typedef, or switch them to lang="ts" and convert them (default: off)
+  --semicolons   End generated statements and multiline type members with semicolons
+  --quotes <single|double>
+                 Quotes of generated strings (default: quote_type from .editorconfig, or single)
+  --trailing-commas
+                 Add trailing commas to generated multiline lists
+  --multiline-threshold <n>
+                 Maximum number of destructured props kept on one line (default: 1)
+  -h, --help     Show this help
+  -v, --version  Show the version
+
+The indentation of the generated code is read from .editorconfig (default: two spaces).
+`
+
+/**
+ * Entry point of the `vue-prop-konverter` CLI.
+ *
+ * @param argv The command line arguments (without the node and script paths)
+ * @returns The process exit code
+ */
+export async function run(argv: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      'dry-run': { type: 'boolean', default: false },
+      check: { type: 'boolean', default: false },
+      diff: { type: 'boolean', default: false },
+      report: { type: 'string' },
+      'validator-fallback': { type: 'string', default: 'comment' },
+      'props-declaration': { type: 'string', default: 'inline' },
+      'defaults-style': { type: 'string', default: 'auto' },
+      'emits-declaration': { type: 'string', default: 'tuple' },
+      javascript: { type: 'string', default: 'off' },
+      semicolons: { type: 'boolean', default: false },
+      quotes: { type: 'string' },
+      'trailing-commas': { type: 'boolean', default: false },
+      'multiline-threshold': { type: 'string', default: '1' },
+      help: { type: 'boolean', short: 'h', default: false },
+      version: { type: 'boolean', short: 'v', default: false },
+    },
+  })
+
+  if (values.help) {
+    process.stdout.write(HELP)
+    return 0
+  }
+
+  if (values.version) {
+    const pkg = JSON.parse(readFileSync(resolve(__dirname, '../package.json'), 'utf-8'))
+    process.stdout.write(`${pkg.version}\n`)
+    return 0
+  }
+
+  const validatorFallback = values['validator-fallback']
+  if (validatorFallback !== 'comment' && validatorFallback !== 'runtime') {
+    console.error(`Invalid --validator-fallback "${validatorFallback}", expected "comment" or "runtime".`)
+    return 2
+  }
+
+  const propsDeclaration = values['props-declaration']
+  if (propsDeclaration !== 'inline' && propsDeclaration !== 'interface' && propsDeclaration !== 'type') {
+    console.error(`Invalid --props-declaration "${propsDeclaration}", expected "inline", "interface" or "type".`)
+    return 2
+  }
+
+  const defaultsStyle = values['defaults-style']
+  if (defaultsStyle !== 'auto' && defaultsStyle !== 'destructure' && defaultsStyle !== 'withDefaults') {
+    console.error(`Invalid --defaults-style "${defaultsStyle}", expected "auto", "destructure" or "withDefaults".`)
+    return 2
+  }
+
+  const emitsDeclaration = values['emits-declaration']
+  if (emitsDeclaration !== 'tuple' && emitsDeclaration !== 'callSignature') {
+    console.error(`Invalid --emits-declaration "${emitsDeclaration}", expected "tuple" or "callSignature".`)
+    return 2
+  }
+
+  const javascript = values.javascript
+  if (javascript !== 'off' && javascript !== 'jsdoc' && javascript !== 'typescript') {
+    console.error(`Invalid --javascript "${javascript}", expected "off", "jsdoc" or "typescript".`)
+    return 2
+  }
+
+  const report = values.report
+  if (report !== undefined && report !== 'markdown' && report !== 'json') {
+    console.error(`Invalid --report "${report}", expected "markdown" or "json".`)
+    return 2
+  }
+
+  const quotes = values.quotes
+  if (quotes !== undefined && quotes !== 'single' && quotes !== 'double') {
+    console.error(`Invalid --quotes "${quotes}", expected "single" or "double".`)
+    return 2
+  }
+
+  const multilineThreshold = Number(values['multiline-threshold'])
+  if (!Number.isInteger(multilineThreshold) || multilineThreshold < 0) {
+    console.error(`Invalid --multiline-threshold "${values['multiline-threshold']}", expected a number.`)
+    return 2
+  }
+
+  const options: ConvertOptions = { validatorFallback, propsDeclaration, emitsDeclaration, javascript }
+  const format: FormatOptions = { semicolons: values.semicolons, trailingCommas: values['trailing-commas'], multilineThreshold }
+  const write = !values['dry-run'] && !values.check
+  const patterns = positionals.length ? positionals : ['**/*.vue']
+  const cwd = process.cwd()
+
+  if (report) return printReport(patterns, cwd, report)
+
+  let changed = 0
+  let failed = 0
+
+  for await (const file of glob(patterns, { cwd, exclude: ['**/node_modules/**'] })) {
+    const path = resolve(cwd, file)
+    const name = relative(cwd, path)
+
+    try {
+      const source = await readFile(path, 'utf-8')
+      const editorConfig = getEditorConfigFormat(path)
+      const result = convertSfc(source, {
+        ...options,
+        componentName: getComponentName(path),
+        // Globs matching other files are converted as Vue SFCs
+        fileType: getFileType(path) ?? 'vue',
+        format: { ...editorConfig, ...format, quotes: quotes ?? editorConfig.quotes },
+        defaultsStyle: defaultsStyle === 'auto'
+          ? supportsPropsDestructure(findVueVersion(dirname(path))) ? 'destructure' : 'withDefaults'
+          : defaultsStyle,
+      })
+
+      const errors = result?.issues.filter(issue => issue.severity === 'error') ?? []
+
+      // Files with conflicts are left unchanged, report why
+      if (errors.length) {
+        failed++
+        for (const issue of errors) console.error(`${name}:${formatLocation(source, issue.start)}: ${issue.message}`)
+        continue
+      }
+
+      if (!result?.converted) continue
+
+      changed++
+
+      if (values.diff) {
+        process.stdout.write(createTwoFilesPatch(`a/${name}`, `b/${name}`, source, result.code))
+      }
+
+      if (write) {
+        await writeFile(path, result.code)
+        console.log(`converted ${name}`)
+      } else if (!values.diff) {
+        console.log(`would convert ${name}`)
+      }
+    } catch (error) {
+      failed++
+      console.error(`failed ${name}: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
+  const verb = write ? 'Converted' : 'Found'
+  console.error(`${verb} ${changed} file(s) with object-style defineProps or runtime defineEmits${failed ? `, ${failed} failed` : ''}.`)
+
+  if (failed) return 2
+  if (values.check && changed) return 1
+  return 0
+}
+
+/**
+ * Prints the migration report of the files matching the globs.
+ *
+ * @param patterns The globs of the files to analyze
+ * @param cwd The directory the globs and the reported paths are relative to
+ * @param format The format of the report
+ * @returns The process exit code
+ */
+async function printReport(patterns: string[], cwd: string, format: 'markdown' | 'json'): Promise<number> {
+  const components: ComponentReport[] = []
+  let failed = 0
+
+  for await (const file of glob(patterns, { cwd, exclude: ['**/node_modules/**'] })) {
+    const path = resolve(cwd, file)
+    const name = relative(cwd, path)
+
+    try {
+      const component = analyzeComponent(name, await readFile(path, 'utf-8'), { fileType: getFileType(path) ?? 'vue' })
+      if (component) components.push(component)
+    } catch (error) {
+      failed++
+      console.error(`failed ${name}: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
+  process.stdout.write(formatReport(createReport(components), format))
+
+  return failed ? 2 : 0
+}
+
+/**
+ * Formats an offset as a `line:column` location.
+ *
+ * @param source The source text
+ * @param offset The offset inside the source
+ * @returns The 1-based `line:column` location
+ */
+function formatLocation(source: string, offset: number): string {
+  const lines = source.slice(0, offset).split('\n')
+  return `${lines.length}:${lines[lines.length - 1].length + 1}`
+}
+
+// Only run as the `vue-prop-konverter` bin, not when imported
+if (typeof require !== 'undefined' && require.main === module) {
+  run(process.argv.slice(2)).then(
+    code => process.exit(code),
+    (error: unknown) => {
+      console.error(error instanceof Error ? error.message : error)
+      process.exit(2)
+    },
+  )
+}
@@ -1,14 +1,31 @@
 import * as vscode from 'vscode'
-import { convertProps } from '../core/converter'
-import { isScriptSetupTs } from '../shared'
+import {
+  convertDefineEmitsAt,
+  convertDefinePropsAt,
+  convertModelAt,
+  convertOptionsProps,
+  convertSfc,
+  findSfcModelPairs,
+  resolveScriptBlock,
+  revertSfc,
+} from '../core/sfc'
+import { getConvertOptions, isIgnoredDocument } from '../core/settings'
+import type { ConversionIssue, TextChange } from '../types'
+
+/**
+ * Code action kind converting every defineProps of a file, usable from `editor.codeActionsOnSave`.
+ */
+export const FIX_ALL_KIND = vscode.CodeActionKind.SourceFixAll.append('vuePropKonverter')
 
 /**
  * CodeActionProvider for converting object-style `defineProps({})`
  * into type-safe generic `defineProps<T>()` and cleaning up
- * `props.xxx` usages throughout the file.
+ * `props.xxx` usages throughout the file, and runtime `defineEmits()`
+ * into `defineEmits<T>()`.
  *
  * This provider is triggered when diagnostics detect outdated
  * defineProps syntax inside a <script setup lang="ts"> block.
+ * It also offers the reverse refactoring on type-based `defineProps<T>()`.
  */
 export const propFixProvider: vscode.CodeActionProvider = {
   /**
@@ -27,61 +44,233 @@ export const propFixProvider: vscode.CodeActionProvider = {
     const actions: vscode.CodeAction[] = []
 
     for (const diagnostic of context.diagnostics) {
-      // Skip all diagnostics except the one attached to props.TypeSyntax
-      if (diagnostic.code !== 'props.TypeSyntax') continue
+      const code = getDiagnosticCode(diagnostic)
 
-      const fullText = document.getText()
-      
-      // Only run inside <script setup lang="ts"> blocks
-      if (!isScriptSetupTs(fullText)) continue
+      if (code === 'props.ModelPair') {
+        const fix = provideModelAction(document, diagnostic)
+        if (fix) actions.push(fix)
+        continue
+      }
 
-      const oldCode = document.getText(diagnostic.range)
-      const replacement = convertProps(oldCode)
+      if (code === 'props.OptionsApi') {
+        const fix = provideOptionsAction(document, diagnostic)
+        if (fix) actions.push(fix)
+        continue
+      }
 
-      // Guard: If conversion failed or returned invalid code, skip
-      if (!replacement || typeof replacement !== 'string') continue
+      // Skip all diagnostics except the ones attached to props.TypeSyntax / emits.TypeSyntax
+      if (code !== 'props.TypeSyntax' && code !== 'emits.TypeSyntax') continue
 
-      // Extract prop names from the replacement code
-      const propsMatch = replacement.match(/\{\s*([\s\S]*?)\s*\}\s*=/)
-      const propsUsed = new Set<string>()
+      const isEmits = code === 'emits.TypeSyntax'
+      const source = document.getText()
+      const options = getConvertOptions(document)
 
-      if (propsMatch && propsMatch[1]) {
-        const regex = /\b([A-Za-z0-9_$]+)\b(?=\s*(?:=|,|$))/g
-        let m: RegExpExecArray | null
-        while ((m = regex.exec(propsMatch[1]))) propsUsed.add(m[1])
-      }
+      // Only runs inside <script setup lang="ts"> blocks, and JavaScript blocks if enabled
+      const result = (isEmits ? convertDefineEmitsAt : convertDefinePropsAt)(
+        source,
+        document.offsetAt(diagnostic.range.start),
+        document.offsetAt(diagnostic.range.end),
+        options,
+      )
+
+      // Guard: If conversion failed, skip
+      if (!result) continue
+
+      // JavaScript blocks in JSDoc mode keep their runtime props
+      const title = isEmits
+        ? 'Convert to type-safe defineEmits()'
+        : resolveScriptBlock(source, options)?.jsdoc ? 'Add JSDoc @typedef for the props' : 'Convert to type-safe defineProps()'
 
       // Create a new QuickFix action
-      const fix = new vscode.CodeAction(
-        'Convert to type-safe defineProps()',
-        vscode.CodeActionKind.QuickFix,
-      )
+      const fix = new vscode.CodeAction(title, vscode.CodeActionKind.QuickFix)
       fix.diagnostics = [diagnostic]
-      fix.edit = new vscode.WorkspaceEdit()
-
-      // Replace the old defineProps call
-      fix.edit.replace(document.uri, diagnostic.range, replacement)
-
-      // Replace all `props.<name>` usages in the document with direct variable references
-      const originalText = document.getText()
-      for (const prop of propsUsed) {
-        const regex = new RegExp(`\\bprops\\.${prop}\\b`, 'g')
-        let match: RegExpExecArray | null
-        while ((match = regex.exec(originalText))) {
-          fix.edit.replace(
-            document.uri,
-            new vscode.Range(
-              document.positionAt(match.index),
-              document.positionAt(match.index + match[0].length),
-            ),
-            prop,
-          )
-        }
+
+      const errors = result.issues.filter(issue => issue.severity === 'error')
+
+      if (errors.length) {
+        // Show the conflicts instead of producing broken code
+        fix.disabled = { reason: formatIssues(document, errors) }
+      } else {
+        fix.edit = new vscode.WorkspaceEdit()
+        addTextChanges(fix.edit, document, result.changes)
       }
 
       actions.push(fix)
+
+      // Shows every change, including the `props.x` replacements, in the diff editor before applying
+      if (!errors.length) {
+        const preview = new vscode.CodeAction('Preview conversion', vscode.CodeActionKind.QuickFix)
+        preview.diagnostics = [diagnostic]
+        preview.command = {
+          title: 'Preview conversion',
+          command: 'vue-prop-konverter.previewConversion',
+          arguments: [document.uri, result.changes],
+        }
+
+        actions.push(preview)
+      }
+    }
+
+    const revert = provideRevertAction(document, range)
+    if (revert) actions.push(revert)
+
+    // Source actions are only listed when requested (source action menu, on save)
+    if (context.only?.contains(FIX_ALL_KIND)) {
+      const fixAll = provideFixAllAction(document)
+      if (fixAll) actions.push(fixAll)
     }
 
     return actions
   },
 }
+
+/**
+ * Gets the code of a diagnostic, the diagnostics of the extension use a code object linking to the Vue docs.
+ *
+ * @param diagnostic The diagnostic
+ * @returns The code, e.g. `props.TypeSyntax`
+ */
+function getDiagnosticCode(diagnostic: vscode.Diagnostic): string | number | undefined {
+  return typeof diagnostic.code === 'object' ? diagnostic.code.value : diagnostic.code
+}
+
+/**
+ * Creates the quick fix replacing a `v-model` prop/emit pair with `defineModel()`.
+ *
+ * @param document The document where the command was invoked
+ * @param diagnostic The `props.ModelPair` diagnostic on the prop declaration
+ * @returns The code action, or `undefined` if the pair can't be found anymore
+ */
+function provideModelAction(document: vscode.TextDocument, diagnostic: vscode.Diagnostic): vscode.CodeAction | undefined {
+  const source = document.getText()
+  const start = document.offsetAt(diagnostic.range.start)
+  const pair = findSfcModelPairs(source)?.find(pair => pair.start === start)
+  const result = pair && convertModelAt(source, pair.name)
+  if (!result) return undefined
+
+  const fix = new vscode.CodeAction('Convert to defineModel()', vscode.CodeActionKind.QuickFix)
+  fix.diagnostics = [diagnostic]
+
+  const errors = result.issues.filter(issue => issue.severity === 'error')
+
+  if (errors.length) {
+    fix.disabled = { reason: formatIssues(document, errors) }
+  } else {
+    fix.edit = new vscode.WorkspaceEdit()
+    addTextChanges(fix.edit, document, result.changes)
+  }
+
+  return fix
+}
+
+/**
+ * Creates the quick fix typing the props of an Options API component, or moving it to `<script setup>`.
+ *
+ * @param document The document where the command was invoked
+ * @param diagnostic The `props.OptionsApi` diagnostic on the `props` option
+ * @returns The code action, or `undefined` if there is nothing to convert anymore
+ */
+function provideOptionsAction(document: vscode.TextDocument, diagnostic: vscode.Diagnostic): vscode.CodeAction | undefined {
+  const options = getConvertOptions(document)
+  const result = convertOptionsProps(document.getText(), options)
+  if (!result?.changes.length) return undefined
+
+  // Components that can't be moved are typed in place
+  const title = result.moved ? 'Move to <script setup> with type-safe defineProps()' : 'Type the props with defineComponent() and PropType'
+
+  const fix = new vscode.CodeAction(title, vscode.CodeActionKind.QuickFix)
+  fix.diagnostics = [diagnostic]
+  fix.edit = new vscode.WorkspaceEdit()
+  addTextChanges(fix.edit, document, result.changes)
+
+  return fix
+}
+
+/**
+ * Creates the source action converting every object-style defineProps and runtime defineEmits of the document.
+ * Files with conflicts are left unchanged, as fix-all actions run without user interaction.
+ *
+ * @param document The document to convert
+ * @returns The code action, or `undefined` if there is nothing to convert or the file is ignored
+ */
+function provideFixAllAction(document: vscode.TextDocument): vscode.CodeAction | undefined {
+  // Quick fixes follow the diagnostics, which skip ignored files: fix-all runs on save without them
+  if (isIgnoredDocument(document)) return undefined
+
+  const result = convertSfc(document.getText(), getConvertOptions(document))
+  if (!result?.converted || result.issues.some(issue => issue.severity === 'error')) return undefined
+
+  const action = new vscode.CodeAction('Convert all defineProps and defineEmits to type-safe syntax', FIX_ALL_KIND)
+  action.edit = new vscode.WorkspaceEdit()
+  addTextChanges(action.edit, document, result.changes)
+
+  return action
+}
+
+/**
+ * Creates the refactoring converting the type-based defineProps<T>() at the given range
+ * back to runtime object syntax.
+ *
+ * @param document The document where the command was invoked
+ * @param range The range where the command was invoked
+ * @returns The code action, or `undefined` if there is no type-based defineProps at the range
+ */
+function provideRevertAction(document: vscode.TextDocument, range: vscode.Range): vscode.CodeAction | undefined {
+  if (document.languageId !== 'vue') return undefined
+
+  const result = revertSfc(document.getText(), document.offsetAt(range.start), getConvertOptions(document))
+  if (!result || (!result.converted && !result.issues.length)) return undefined
+
+  const action = new vscode.CodeAction(
+    'Convert to runtime defineProps()',
+    vscode.CodeActionKind.RefactorRewrite,
+  )
+
+  const errors = result.issues.filter(issue => issue.severity === 'error')
+
+  if (errors.length) {
+    action.disabled = { reason: formatIssues(document, errors) }
+  } else {
+    action.edit = new vscode.WorkspaceEdit()
+    addTextChanges(action.edit, document, result.changes)
+  }
+
+  return action
+}
+
+/**
+ * Formats conversion issues as a single message, with their line numbers.
+ * 
+ * @param document The document the issue offsets refer to
+ * @param issues The issues to format
+ * @returns The formatted message
+ */
+export function formatIssues(document: vscode.TextDocument, issues: ConversionIssue[]): string {
+  return issues
+    .map(issue => `Line ${document.positionAt(issue.start).line + 1}: ${issue.message}`)
+    .join('\n')
+}
+
+/**
+ * Adds offset-based text changes to the given WorkspaceEdit.
+ * 
+ * @param edit The WorkspaceEdit to add the edits to
+ * @param document The document the offsets refer to
+ * @param changes The changes to add
+ * @param metadata Metadata of the changes, e.g. to confirm them in the refactor preview
+ */
+export function addTextChanges(
+  edit: vscode.WorkspaceEdit,
+  document: vscode.TextDocument,
+  changes: TextChange[],
+  metadata?: vscode.WorkspaceEditEntryMetadata,
+): void {
+  for (const change of changes) {
+    edit.replace(
+      document.uri,
+      new vscode.Range(document.positionAt(change.start), document.positionAt(change.end)),
+      change.text,
+      metadata,
+    )
+  }
+}
@@ -0,0 +1,259 @@
+import * as vscode from 'vscode'
+import { addTextChanges, formatIssues } from '../core/actions'
+import { analyzeComponent, createReport, formatReport } from '../core/report'
+import { convertSfc, revertSfc } from '../core/sfc'
+import { getConvertOptions, isIgnoredDocument } from '../core/settings'
+import type { ComponentReport, SfcConversion } from '../types'
+
+/**
+ * Glob used to exclude dependencies when searching for Vue files.
+ */
+const EXCLUDE_GLOB = '**/node_modules/**'
+
+/**
+ * Result of a batch conversion, used for the summary message.
+ */
+interface BatchSummary {
+  converted: vscode.Uri[]
+  skipped: vscode.Uri[]
+  failed: Array<{ uri: vscode.Uri, error: unknown }>
+}
+
+/**
+ * Converts object-style defineProps to type-based defineProps<T>().
+ */
+const CONVERT_TASK = {
+  title: 'Converting defineProps',
+  placeHolder: 'Convert defineProps in…',
+  convert: (document: vscode.TextDocument): SfcConversion | null =>
+    convertSfc(document.getText(), getConvertOptions(document)),
+}
+
+/**
+ * Converts type-based defineProps<T>() back to runtime object syntax.
+ */
+const REVERT_TASK: BatchTask = {
+  title: 'Converting defineProps to runtime syntax',
+  placeHolder: 'Convert defineProps to runtime syntax in…',
+  convert: document => revertSfc(document.getText(), undefined, getConvertOptions(document)),
+}
+
+/**
+ * Describes one direction of the batch conversion.
+ */
+type BatchTask = typeof CONVERT_TASK
+
+/**
+ * Handler for the `vue-prop-konverter.convertProps` command.
+ *
+ * The scope depends on how the command was invoked:
+ * - from the explorer context menu on a folder: every `.vue` file in that folder
+ * - from the explorer context menu on a file: only that file
+ * - from the command palette: asks for the current file or the whole workspace
+ *
+ * All conversions are applied in a single WorkspaceEdit, reviewed file by file in the
+ * refactor preview, and a summary of converted, skipped and failed files is shown afterwards.
+ *
+ * @param output The output channel used to log failed files
+ * @param uri The resource the command was invoked on (if any)
+ */
+export function convertPropsCommand(output: vscode.OutputChannel, uri?: vscode.Uri): Promise<void> {
+  return runBatch(output, uri, CONVERT_TASK)
+}
+
+/**
+ * Handler for the `vue-prop-konverter.revertProps` command.
+ * Converts type-based `defineProps<T>()` back to runtime object syntax,
+ * with the same scopes as `convertPropsCommand`.
+ *
+ * @param output The output channel used to log failed files
+ * @param uri The resource the command was invoked on (if any)
+ */
+export function revertPropsCommand(output: vscode.OutputChannel, uri?: vscode.Uri): Promise<void> {
+  return runBatch(output, uri, REVERT_TASK)
+}
+
+/**
+ * Handler for the `vue-prop-konverter.migrationReport` command.
+ * Analyzes every `.vue` file of the workspace without converting it, and opens
+ * a Markdown or JSON report of the props and emits left to convert, per component and per directory.
+ */
+export async function migrationReportCommand(): Promise<void> {
+  const format = await vscode.window.showQuickPick(
+    [
+      { label: 'Markdown', description: 'Tables to read and share', format: 'markdown' as const },
+      { label: 'JSON', description: 'Data to track the progress with scripts', format: 'json' as const },
+    ],
+    { placeHolder: 'Format of the migration report' },
+  )
+  if (!format) return
+
+  const components: ComponentReport[] = []
+
+  await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: 'Analyzing components',
+      cancellable: true,
+    },
+    async (progress, token) => {
+      const files = await vscode.workspace.findFiles('**/*.vue', EXCLUDE_GLOB)
+
+      for (const file of files) {
+        if (token.isCancellationRequested) return
+
+        const path = vscode.workspace.asRelativePath(file, false)
+        progress.report({ message: path, increment: 100 / files.length })
+
+        try {
+          const document = await vscode.workspace.openTextDocument(file)
+          if (isIgnoredDocument(document)) continue
+
+          const component = analyzeComponent(path, document.getText())
+          if (component) components.push(component)
+        } catch {
+          // Files that don't parse can't be analyzed, the report covers the others
+        }
+      }
+    },
+  )
+
+  const document = await vscode.workspace.openTextDocument({
+    language: format.format,
+    content: formatReport(createReport(components), format.format),
+  })
+  await vscode.window.showTextDocument(document)
+}
+
+/**
+ * Runs a conversion on every file in scope and applies the result as a single WorkspaceEdit.
+ * The changes need confirmation, so they are listed per file in the refactor preview first.
+ *
+ * @param output The output channel used to log failed files
+ * @param uri The resource the command was invoked on (if any)
+ * @param task The conversion to run
+ */
+async function runBatch(output: vscode.OutputChannel, uri: vscode.Uri | undefined, task: BatchTask): Promise<void> {
+  const files = await resolveScope(uri, task.placeHolder)
+  if (!files) return
+
+  if (!files.length) {
+    vscode.window.showInformationMessage('Vue Prop Konverter: No .vue files found.')
+    return
+  }
+
+  const edit = new vscode.WorkspaceEdit()
+  const summary: BatchSummary = { converted: [], skipped: [], failed: [] }
+
+  await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: task.title,
+      cancellable: true,
+    },
+    async (progress, token) => {
+      for (const file of files) {
+        if (token.isCancellationRequested) break
+
+        progress.report({
+          message: vscode.workspace.asRelativePath(file),
+          increment: 100 / files.length,
+        })
+
+        try {
+          const document = await vscode.workspace.openTextDocument(file)
+
+          // Files matching the `vuePropKonverter.ignore` globs are kept as is
+          if (isIgnoredDocument(document)) {
+            summary.skipped.push(file)
+            continue
+          }
+
+          const result = task.convert(document)
+
+          const errors = result?.issues.filter(issue => issue.severity === 'error') ?? []
+
+          // Files with conflicts are left unchanged, report why
+          if (errors.length) {
+            summary.failed.push({ uri: file, error: new Error(formatIssues(document, errors)) })
+            continue
+          }
+
+          if (!result?.converted) {
+            summary.skipped.push(file)
+            continue
+          }
+
+          addTextChanges(edit, document, result.changes, {
+            needsConfirmation: true,
+            label: vscode.workspace.asRelativePath(file),
+          })
+          summary.converted.push(file)
+        } catch (error) {
+          summary.failed.push({ uri: file, error })
+        }
+      }
+    },
+  )
+
+  // Also false when the refactor preview is discarded
+  if (summary.converted.length && !await vscode.workspace.applyEdit(edit, { isRefactoring: true })) {
+    vscode.window.showInformationMessage('Vue Prop Konverter: The conversion was not applied.')
+    return
+  }
+
+  for (const { uri, error } of summary.failed) {
+    output.appendLine(`[failed] ${vscode.workspace.asRelativePath(uri)}: ${error instanceof Error ? error.message : String(error)}`)
+  }
+
+  const message = `Vue Prop Konverter: Converted ${summary.converted.length} file(s), skipped ${summary.skipped.length}, failed ${summary.failed.length}.`
+
+  if (summary.failed.length) {
+    const choice = await vscode.window.showWarningMessage(message, 'Show Details')
+    if (choice) output.show()
+  } else {
+    vscode.window.showInformationMessage(message)
+  }
+}
+
+/**
+ * Resolves the list of `.vue` files the command should run on.
+ *
+ * @param uri The resource the command was invoked on (if any)
+ * @param placeHolder Placeholder of the scope quick pick
+ * @returns The files to convert, or `undefined` if the user cancelled
+ */
+async function resolveScope(uri: vscode.Uri | undefined, placeHolder: string): Promise<vscode.Uri[] | undefined> {
+  if (uri) {
+    const stat = await vscode.workspace.fs.stat(uri)
+
+    if (stat.type & vscode.FileType.Directory) {
+      return vscode.workspace.findFiles(new vscode.RelativePattern(uri, '**/*.vue'), EXCLUDE_GLOB)
+    }
+
+    return [uri]
+  }
+
+  const activeDocument = vscode.window.activeTextEditor?.document
+  const items: Array<vscode.QuickPickItem & { scope: 'file' | 'workspace' }> = []
+
+  if (activeDocument?.languageId === 'vue') {
+    items.push({
+      label: 'Current File',
+      description: vscode.workspace.asRelativePath(activeDocument.uri),
+      scope: 'file',
+    })
+  }
+
+  items.push({ label: 'Whole Workspace', scope: 'workspace' })
+
+  const picked = items.length === 1
+    ? items[0]
+    : await vscode.window.showQuickPick(items, { placeHolder })
+
+  if (!picked) return undefined
+
+  if (picked.scope === 'file' && activeDocument) return [activeDocument.uri]
+
+  return vscode.workspace.findFiles('**/*.vue', EXCLUDE_GLOB)
+}
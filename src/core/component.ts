@@ -0,0 +1,318 @@
+import traverse from '@babel/traverse'
+import * as t from '@babel/types'
+import { extractProps, indentAt, inferTypeFromDefault, isLooseType } from '../core/converter'
+import { addImport, isImported } from '../core/imports'
+import { listItemRange, statementRange } from '../core/model'
+import { applyTextChanges } from '../core/sfc'
+import { parseScript } from '../shared'
+import type { NodePath } from '@babel/traverse'
+import type { ConversionIssue, PropsFix, TextChange } from '../types'
+
+/**
+ * Options a component can have to be moved to `<script setup>`.
+ */
+const SCRIPT_SETUP_OPTIONS = ['name', 'props', 'emits', 'setup']
+
+/**
+ * The default-exported Options API component of a script.
+ */
+export interface OptionsComponent {
+  /** The parsed script */
+  ast: t.File
+
+  /** The `export default` declaration */
+  declaration: t.ExportDefaultDeclaration
+
+  /** The component options object */
+  options: t.ObjectExpression
+
+  /** Whether the options are wrapped in `defineComponent()` */
+  defined: boolean
+
+  /** The `props` option, declared as an object */
+  props: t.ObjectProperty & { value: t.ObjectExpression }
+}
+
+/**
+ * Finds the Options API component of a script with object props:
+ * `export default defineComponent({ props: {...} })` or `export default { props: {...} }`.
+ *
+ * @param scriptContent The content of the `<script>` block
+ * @returns The component, or `null` if the script doesn't export one with object props
+ */
+export function findOptionsComponent(scriptContent: string): OptionsComponent | null {
+  const ast = parseScript(scriptContent)
+  const declaration = ast.program.body.find(statement => t.isExportDefaultDeclaration(statement))
+  if (!declaration) return null
+
+  let options: t.Node = declaration.declaration
+  const defined = t.isCallExpression(options) && t.isIdentifier(options.callee, { name: 'defineComponent' })
+  if (defined && t.isCallExpression(options)) options = options.arguments[0]
+  if (!t.isObjectExpression(options)) return null
+
+  const props = options.properties.find(property => t.isObjectProperty(property) && getKeyName(property) === 'props')
+  if (!t.isObjectProperty(props) || !t.isObjectExpression(props.value)) return null
+
+  return { ast, declaration, options, defined, props: props as OptionsComponent['props'] }
+}
+
+/**
+ * Types the props of an Options API component in place:
+ * - plain option objects are wrapped in `defineComponent()`, so TypeScript infers the props
+ * - a literal `includes` validator becomes a `PropType<T>` cast of the `type` (`String as PropType<'sm' | 'md'>`),
+ *   the validator is kept for the runtime check
+ * - `Object` and `Array` props are cast to the type of their default (`Array as PropType<string[]>`),
+ *   the ones without a telling default are reported
+ *
+ * @param scriptContent The content of the `<script>` block
+ * @param component The component, as returned by `findOptionsComponent`
+ * @returns The changes with offsets inside the script, empty if the props are typed already, and the props left loosely typed
+ */
+export function typeOptionsProps(scriptContent: string, component: OptionsComponent): PropsFix {
+  const { ast, options, defined, props } = component
+  const changes: TextChange[] = []
+  const issues: ConversionIssue[] = []
+  const imports: string[] = []
+
+  if (!defined) {
+    changes.push(
+      { start: options.start ?? 0, end: options.start ?? 0, text: 'defineComponent(' },
+      { start: options.end ?? 0, end: options.end ?? 0, text: ')' },
+    )
+    if (!isImported(ast, 'defineComponent')) imports.push('defineComponent')
+  }
+
+  for (const property of props.value.properties) {
+    if (!t.isObjectProperty(property)) continue
+
+    const [prop] = extractProps(scriptContent, t.objectExpression([property]))
+    if (!prop) continue
+
+    // Shorthand props are their constructor: `tags: Array`
+    const definition = t.isObjectExpression(property.value) ? property.value : undefined
+    const option = (name: string) => definition?.properties.find(p => !t.isSpreadElement(p) && getKeyName(p) === name)
+    const type = option('type')
+    const typeNode = definition ? t.isObjectProperty(type) ? type.value : undefined : property.value
+    if (!typeNode || t.isTSAsExpression(typeNode)) continue
+
+    let cast: string | undefined
+
+    if (option('validator') && !prop.validator) {
+      // The union replaces the validator when the prop can be extracted as a type
+      cast = prop.type
+    } else if (isLooseType(prop.type)) {
+      // `type: Object` / `type: Array` tell nothing of the value, its default may
+      const value = option('default')
+      const inferred = t.isObjectProperty(value)
+        ? inferTypeFromDefault(value.value)
+        : t.isObjectMethod(value) ? inferTypeFromDefault(t.arrowFunctionExpression(value.params, value.body)) : undefined
+
+      if (inferred && !/\bunknown\b/.test(inferred)) {
+        cast = inferred
+      } else {
+        issues.push({
+          message: `Prop '${prop.name}' is typed as '${prop.type}', its constructor doesn't tell more. Declare its type with a PropType<T> cast.`,
+          start: property.start ?? 0,
+          end: property.end ?? 0,
+          severity: 'warning',
+        })
+      }
+    }
+
+    if (!cast) continue
+
+    // Inferred object types span several lines, indented at the prop
+    const end = typeNode.end ?? 0
+    changes.push({ start: end, end, text: indentAt(scriptContent, end, ` as PropType<${cast}>`) })
+  }
+
+  const typed = changes.length > (defined ? 0 : 2)
+  if (typed && !isImported(ast, 'PropType')) imports.push('type PropType')
+
+  if (imports.length) {
+    const declaration = imports.length === 1 && imports[0] === 'type PropType'
+      ? 'import type { PropType } from \'vue\''
+      : `import { ${imports.join(', ')} } from 'vue'`
+    changes.push(addImport(scriptContent, ast, declaration))
+  }
+
+  return { changes, issues }
+}
+
+/**
+ * Moves a `setup()`-only Options API component to `<script setup>` content with a runtime
+ * `defineProps({})`, which the conversion then turns into a type-based declaration.
+ *
+ * Only simple components are moved: `name`, `props`, `emits` and `setup()` options, a `setup(props, { emit })`
+ * signature, and a `setup()` returning nothing or the bindings it declares (`return { count, increment }`),
+ * in a script without other value exports.
+ *
+ * @param scriptContent The content of the `<script>` block
+ * @param component The component, as returned by `findOptionsComponent`
+ * @returns The `<script setup>` content, or the reason why the component can't be moved
+ */
+export function toScriptSetup(scriptContent: string, component: OptionsComponent): { content: string } | { reason: string } {
+  const { ast, declaration, options, defined, props } = component
+  const source = (node: t.Node) => scriptContent.slice(node.start ?? 0, node.end ?? 0)
+
+  const option = (name: string) => options.properties
+    .find((p): p is t.ObjectProperty | t.ObjectMethod => !t.isSpreadElement(p) && getKeyName(p) === name)
+
+  // <script setup> can't contain ES module exports, type exports excepted
+  const exported = ast.program.body.find(statement =>
+    (t.isExportNamedDeclaration(statement) && statement.exportKind !== 'type') || t.isExportAllDeclaration(statement))
+  if (exported) return { reason: `the script exports '${source(exported).split('\n')[0]}', <script setup> can't contain exports` }
+
+  for (const property of options.properties) {
+    const name = t.isSpreadElement(property) ? undefined : getKeyName(property)
+    if (!name || !SCRIPT_SETUP_OPTIONS.includes(name)) {
+      return { reason: `the component has ${name ? `a '${name}' option` : 'a computed or spread option'}` }
+    }
+  }
+
+  const name = option('name')
+  const emits = option('emits')
+  if ((name && !t.isObjectProperty(name)) || (emits && !t.isObjectProperty(emits))) {
+    return { reason: 'the name and emits options must be values' }
+  }
+
+  const setup = getSetupFunction(option('setup'))
+  if (setup === null) return { reason: 'setup() must be a synchronous function' }
+
+  const [propsParam, context] = setup?.params ?? []
+  if (propsParam && !t.isIdentifier(propsParam)) return { reason: 'setup() destructures its props' }
+
+  const emitParam = t.isObjectPattern(context) && context.properties.length === 1 ? context.properties[0] : undefined
+  const emitName = t.isObjectProperty(emitParam) && getKeyName(emitParam) === 'emit' && t.isIdentifier(emitParam.value)
+    ? emitParam.value.name
+    : undefined
+
+  if (context && (!emitName || !emits)) return { reason: 'setup() uses its context for more than `emit`' }
+
+  if (setup && !t.isBlockStatement(setup.body)) return { reason: 'setup() returns an expression' }
+  const body = setup && t.isBlockStatement(setup.body) ? setup.body.body : []
+
+  const last = body[body.length - 1]
+  const returned = t.isReturnStatement(last) ? last : undefined
+
+  // The bindings of <script setup> are exposed to the template with their own names
+  if (returned && (!t.isObjectExpression(returned.argument) || !returned.argument.properties.every(isExposedBinding))) {
+    return { reason: 'setup() returns a render function or renamed bindings' }
+  }
+
+  if (setup && hasEarlyReturn(ast, setup, returned)) return { reason: 'setup() returns early' }
+
+  const lines: string[] = []
+  if (t.isObjectProperty(name)) lines.push(`defineOptions({ name: ${source(name.value)} })\n`)
+
+  lines.push(`${propsParam ? `const ${propsParam.name} = ` : ''}defineProps(${dedent(scriptContent, props.value)})`)
+  if (t.isObjectProperty(emits)) lines.push(`${emitName ? `const ${emitName} = ` : ''}defineEmits(${dedent(scriptContent, emits.value)})`)
+
+  const statements = returned ? body.slice(0, -1) : body
+  if (statements.length) {
+    const first = statements[0]
+    const lineStart = scriptContent.lastIndexOf('\n', (first.start ?? 0) - 1) + 1
+    const indent = scriptContent.slice(lineStart, first.start ?? 0)
+    const code = scriptContent.slice(lineStart, statements[statements.length - 1].end ?? 0)
+
+    lines.push('', code.split('\n').map(line => (line.startsWith(indent) ? line.slice(indent.length) : line.trimStart())).join('\n'))
+  }
+
+  const changes: TextChange[] = [{ start: declaration.start ?? 0, end: declaration.end ?? 0, text: lines.join('\n') }]
+
+  // `defineComponent` isn't used anymore
+  for (const statement of ast.program.body) {
+    if (!defined || !t.isImportDeclaration(statement)) continue
+
+    const specifier = statement.specifiers.find(s => s.local.name === 'defineComponent')
+    if (!specifier) continue
+
+    const [start, end] = statement.specifiers.length === 1
+      ? statementRange(scriptContent, statement)
+      : listItemRange(statement.specifiers, specifier)
+    changes.push({ start, end, text: '' })
+  }
+
+  return { content: applyTextChanges(scriptContent, changes) }
+}
+
+/**
+ * Gets the `setup()` function of the component options.
+ *
+ * @param option The `setup` option
+ * @returns The function, `undefined` without `setup()`, or `null` if it's not a plain synchronous function
+ */
+function getSetupFunction(option: t.ObjectMethod | t.ObjectProperty | undefined): t.Function | null | undefined {
+  if (!option) return undefined
+
+  const fn = t.isObjectMethod(option) ? option : option.value
+  if (!t.isObjectMethod(fn) && !t.isFunctionExpression(fn) && !t.isArrowFunctionExpression(fn)) return null
+  if (fn.async || fn.generator) return null
+
+  return fn
+}
+
+/**
+ * Checks whether a property of the object returned by `setup()` exposes a binding with its own name:
+ * `{ count }` or `{ count: count }`.
+ *
+ * @param property The property of the returned object
+ * @returns `true` if the binding keeps its name
+ */
+function isExposedBinding(property: t.ObjectExpression['properties'][number]): boolean {
+  return t.isObjectProperty(property) &&
+    !property.computed &&
+    t.isIdentifier(property.key) &&
+    t.isIdentifier(property.value, { name: property.key.name })
+}
+
+/**
+ * Checks whether `setup()` returns before its last statement.
+ *
+ * @param ast The parsed script
+ * @param setup The `setup()` function
+ * @param returned The final `return` statement
+ * @returns `true` if another `return` statement belongs to `setup()`
+ */
+function hasEarlyReturn(ast: t.File, setup: t.Function, returned: t.ReturnStatement | undefined): boolean {
+  let early = false
+
+  traverse(ast, {
+    ReturnStatement(path: NodePath<t.ReturnStatement>) {
+      if (path.node !== returned && path.getFunctionParent()?.node === setup) early = true
+    },
+  })
+
+  return early
+}
+
+/**
+ * Gets the source of an option value, without the indentation of the option.
+ *
+ * @param scriptContent The content of the `<script>` block
+ * @param node The option value
+ * @returns The dedented source
+ */
+function dedent(scriptContent: string, node: t.Node): string {
+  const lineStart = scriptContent.lastIndexOf('\n', (node.start ?? 0) - 1) + 1
+  const indent = scriptContent.slice(lineStart).match(/^[ \t]*/)?.[0] ?? ''
+
+  return scriptContent
+    .slice(node.start ?? 0, node.end ?? 0)
+    .split('\n')
+    .map(line => (line.startsWith(indent) ? line.slice(indent.length) : line))
+    .join('\n')
+}
+
+/**
+ * Gets the name of a static object key.
+ *
+ * @param property The object property or method
+ * @returns The key name, or `undefined` for computed keys
+ */
+function getKeyName(property: t.ObjectProperty | t.ObjectMethod): string | undefined {
+  if (property.computed) return undefined
+  if (t.isIdentifier(property.key)) return property.key.name
+  if (t.isStringLiteral(property.key)) return property.key.value
+  return undefined
+}
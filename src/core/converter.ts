@@ -2,9 +2,49 @@ import * as babel from '@babel/parser'
 import traverse from '@babel/traverse'
 import generate from '@babel/generator'
 import * as t from '@babel/types'
-import type { PropDefinition } from '../types'
+import { formatCode, preserve, resolveFormat } from '../core/format'
+import { parseScript } from '../shared'
+import { applyTextChanges } from '../core/sfc'
+import type { ConversionIssue, ConvertOptions, PropDefinition, PropsConversion, TextChange } from '../types'
 import type { NodePath } from '@babel/traverse'
 
+/**
+ * Declarations of a script that a defineProps object can refer to.
+ */
+export interface PropsScope {
+  /** The content of the <script setup> block */
+  source: string
+
+  /** Initializers of the top-level `const` declarations, without `as const`: shared prop objects and computed keys */
+  constants: Map<string, t.Expression>
+
+  /** Names of the declared types and of the imports, which may be types */
+  types: Set<string>
+}
+
+/**
+ * A prop object spread into defineProps: `defineProps({ ...baseProps })`.
+ */
+interface SharedProps {
+  /** Name of the object */
+  name: string
+
+  /** Type declaring its props */
+  typeName: string
+
+  /** Its props, from the object declared in the script */
+  props: PropDefinition[]
+
+  /** Whether the type is generated from the object */
+  generated: boolean
+
+  /** Position of the spread in the defineProps object */
+  index: number
+
+  /** Its props declared again further down the defineProps object, omitted from its type */
+  overridden: string[]
+}
+
 /**
  * Finds all object-style defineProps({}) usages in the given script content.
  * 
@@ -12,10 +52,7 @@ import type { NodePath } from '@babel/traverse'
  * @returns An array of VariableDeclaration or CallExpression nodes
  */
 export function findObjectDefineProps(scriptContent: string): Array<t.VariableDeclaration | t.CallExpression> {
-  const ast = babel.parse(scriptContent, {
-    sourceType: 'module',
-    plugins: ['typescript'],
-  })
+  const ast = parseScript(scriptContent)
 
   const nodes: Array<t.VariableDeclaration | t.CallExpression> = []
 
@@ -49,19 +86,140 @@ export function findObjectDefineProps(scriptContent: string): Array<t.VariableDe
 }
 
 /**
- * Converts object-style defineProps to type-safe defineProps<{}>().
+ * Converts every object-style defineProps in the script to type-safe defineProps<{}>().
  * Removes "props =" binding if default values exist.
  * 
  * @param scriptContent The content of the <script setup> block
- * @returns The converted defineProps code as a string
+ * @param options Options controlling the generated code
+ * @returns The script content with every defineProps converted
+ */
+export function convertProps(scriptContent: string, options: ConvertOptions = {}): string {
+  const changes: TextChange[] = []
+
+  for (const node of findObjectDefineProps(scriptContent)) {
+    const conversion = convertDefinePropsNode(scriptContent, node, options)
+    if (!conversion || conversion.issues.some(issue => issue.severity === 'error')) continue
+    if (node.start == null || node.end == null) continue
+
+    changes.push({ start: node.start, end: node.end, text: conversion.code }, ...removeSpreadObjects(scriptContent, node))
+  }
+
+  return applyTextChanges(scriptContent, changes)
+}
+
+/**
+ * Converts a single defineProps declaration found in the script, keeping the
+ * indentation of the line it starts on (e.g. inside a nested block).
+ * 
+ * @param scriptContent The content of the <script setup> block
+ * @param node The defineProps declaration, as returned by `findObjectDefineProps`
+ * @param options Options controlling the generated code
+ * @returns The conversion result, or `null` if the declaration could not be converted
+ */
+export function convertDefinePropsNode(
+  scriptContent: string,
+  node: t.VariableDeclaration | t.CallExpression,
+  options: ConvertOptions = {},
+): PropsConversion | null {
+  if (node.start == null || node.end == null) return null
+
+  const conversion = convertDefineProps(scriptContent.slice(node.start, node.end), options, collectScope(scriptContent))
+  if (!conversion) return null
+
+  return { ...conversion, code: indentAt(scriptContent, node.start, conversion.code) }
+}
+
+/**
+ * Removes the declarations of the prop objects spread into a converted defineProps declaration
+ * (`const baseProps = { ... }`) that nothing else references: their props are declared by the type now.
+ * 
+ * @param scriptContent The content of the <script setup> block
+ * @param node The converted defineProps declaration, as returned by `findObjectDefineProps`
+ * @param templateReferences The names read by the template, which keep their declaration
+ * @returns The changes removing the declarations with their line break
+ */
+export function removeSpreadObjects(
+  scriptContent: string,
+  node: t.VariableDeclaration | t.CallExpression,
+  templateReferences: Set<string> = new Set(),
+): TextChange[] {
+  const names = new Set<string>()
+  t.traverseFast(node, child => {
+    if (t.isSpreadElement(child) && t.isIdentifier(child.argument)) names.add(child.argument.name)
+  })
+
+  const changes: TextChange[] = []
+  const isInside = (path: NodePath) => (path.node.start ?? 0) >= (node.start ?? 0) && (path.node.end ?? 0) <= (node.end ?? 0)
+
+  traverse(parseScript(scriptContent), {
+    Program(path: NodePath<t.Program>) {
+      for (const name of names) {
+        const binding = path.scope.getBinding(name)
+        const declaration = binding?.path.parentPath
+
+        if (
+          !binding ||
+          binding.kind !== 'const' ||
+          templateReferences.has(name) ||
+          !declaration?.isVariableDeclaration() ||
+          declaration.node.declarations.length !== 1 ||
+          !binding.referencePaths.every(isInside)
+        ) {
+          continue
+        }
+
+        const start = declaration.node.start ?? 0
+        const end = (declaration.node.end ?? 0) + (scriptContent[declaration.node.end ?? 0] === '\n' ? 1 : 0)
+        changes.push({ start, end, text: '' })
+      }
+
+      path.stop()
+    },
+  })
+
+  return changes
+}
+
+/**
+ * Indents generated code with the indentation of the line it is inserted on.
+ * The first line is inserted at the offset and isn't indented.
+ * 
+ * @param source The source the code is inserted into
+ * @param offset The offset the code is inserted at
+ * @param code The generated code
+ * @returns The indented code
+ */
+export function indentAt(source: string, offset: number, code: string): string {
+  const lineStart = source.lastIndexOf('\n', offset - 1) + 1
+  const indent = source.slice(lineStart, offset).match(/^\s*/)?.[0] ?? ''
+
+  return code
+    .split('\n')
+    .map((line, i) => (i === 0 || !line ? line : indent + line))
+    .join('\n')
+}
+
+/**
+ * Converts the first object-style defineProps to type-safe defineProps<{}>()
+ * and returns the generated code along with the extracted props.
+ * 
+ * Spread prop objects are declared as an intersection with their type: `defineProps<BaseProps & { label?: string }>()`.
+ * 
+ * @param scriptContent The content of the <script setup> block
+ * @param options Options controlling the generated code
+ * @param scope Declarations of the whole script, to resolve spreads and computed keys
+ * @returns The conversion result, or `null` if no object-style defineProps was found.
+ * Props that can't be declared as a type are reported as errors, the code is then left unchanged.
  */
-export function convertProps(scriptContent: string): string {
+export function convertDefineProps(scriptContent: string, options: ConvertOptions = {}, scope?: PropsScope): PropsConversion | null {
   const nodes = findObjectDefineProps(scriptContent)
-  if (!nodes.length) return scriptContent
+  if (!nodes.length) return null
 
-    const target = nodes[0]
+  const target = nodes[0]
 
   let callExpr: t.CallExpression | undefined
+  // Keep the name of an existing props variable: const p = defineProps({})
+  let propsName = 'props'
 
   if (t.isVariableDeclaration(target)) {
     const declarator = target.declarations[0]
@@ -71,113 +229,541 @@ export function convertProps(scriptContent: string): string {
       t.isIdentifier(declarator.init.callee, { name: 'defineProps' })
     ) {
       callExpr = declarator.init
+      if (t.isIdentifier(declarator.id)) propsName = declarator.id.name
     }
   } else if (t.isCallExpression(target)) {
     callExpr = target
   }
 
-  if (!callExpr || callExpr.arguments.length !== 1) return scriptContent
+  if (!callExpr || callExpr.arguments.length !== 1) return null
 
   const arg = callExpr.arguments[0]
-  if (!t.isObjectExpression(arg)) return scriptContent
+  if (!t.isObjectExpression(arg)) return null
 
-  const props: PropDefinition[] = []
+  const issues: ConversionIssue[] = []
+  const ownProps = extractProps(scriptContent, arg, issues, scope)
+  const spreads = resolveSpreads(scriptContent, arg, issues, scope)
+  const declaredProps = resolveOverrides(arg, ownProps, spreads, issues, scope)
 
-  for (const prop of arg.properties) {
-    if (t.isObjectProperty(prop) && (t.isIdentifier(prop.key) || t.isStringLiteral(prop.key))) {
-              let name: string
-
-  if (t.isIdentifier(prop.key)) {
-    name = prop.key.name
-  } else if (t.isStringLiteral(prop.key)) {
-    // Normalize weird keys:
-    // "weird-key" → weirdKey
-    // "some key" → someKey
-    // "🔥value🔥" → value
-    name = normalizePropKey(prop.key.value)
-  } else {
-    continue
+  // Dropping a prop would change the component, leave the declaration unchanged
+  if (issues.some(issue => issue.severity === 'error')) {
+    return { code: scriptContent, props: [], destructured: false, issues }
   }
-      let defaultValue: string | undefined
-      let required = false
-      let type = 'any'
-      let comment: string | undefined
-
-      if (t.isObjectExpression(prop.value)) {
-        for (const p of prop.value.properties) {
-          if (t.isObjectProperty(p) && t.isIdentifier(p.key)) {
-            const keyName = p.key.name
-            if (keyName === 'default') defaultValue = generate(p.value).code
-            if (keyName === 'required' && t.isBooleanLiteral(p.value)) required = p.value.value
-            if (keyName === 'type') type = extractTypeFromNode(p.value)
-          }
-        }
-      } else if (t.isIdentifier(prop.value)) {
-        const builtinTypes = ['String', 'Number', 'Boolean', 'Array', 'Object', 'Function']
-
-        if (builtinTypes.includes(prop.value.name)) {
-          // Shorthand type syntax (title: String)
-          type = extractTypeFromNode(prop.value)
-        } else {
-          // treat as default if it's not one of the known constructors
-          defaultValue = generate(prop.value).code
-        }
-      } else {
-        defaultValue = generate(prop.value).code
-      }
 
-      if (prop.leadingComments?.length) {
-        const commentTexts = prop.leadingComments.map(c => c.value.trimStart())
-        // Preserve /** ... */ JSDoc blocks as-is, not converting them to `//`
-        if (prop.leadingComments.some(c => c.type === 'CommentBlock' && c.value.startsWith('*'))) {
-          comment = '/*' + commentTexts.join('\n') + '*/'
-        } else {
-          // Fallback for normal line comments
-          comment = commentTexts.map(c => (c.startsWith('*') ? `/*${c}*/` : `// ${c}`)).join('\n')
-        }
-      }
+  // The props of spread objects are declared with the others, with their defaults
+  const props = [
+    ...spreads.flatMap(spread => spread.props.filter(p => !spread.overridden.includes(p.name))),
+    ...declaredProps,
+  ]
 
+  const hasDefaults = props.some(p => p.defaultValue)
+  const inlined = new Map(props.map(p => [p, p.defaultValue ? inlineDefault(p) : undefined]))
 
-      props.push({ name, type, required, defaultValue, comment })
+  // A default that can't become a destructure default keeps the whole declaration on withDefaults()
+  let defaultsStyle = options.defaultsStyle ?? 'destructure'
+
+  if (hasDefaults && defaultsStyle === 'destructure') {
+    for (const [prop, inline] of inlined) {
+      if (!inline || !('reason' in inline)) continue
+
+      const node = arg.properties.find(p => t.isObjectProperty(p) && getPropertyName(p) === prop.name)
+      issues.push({
+        message: `The default of '${prop.name}' can't be a destructure default: ${inline.reason}. The props are declared with withDefaults() instead.`,
+        start: node?.start ?? 0,
+        end: node?.end ?? 0,
+        severity: 'warning',
+      })
+      defaultsStyle = 'withDefaults'
     }
   }
 
-  const destructureParts = props.map(p => p.defaultValue ? `${p.name} = ${normalizeDefault(p.defaultValue)}` : p.name)
+  // The types, defaults and validators copied from the source aren't restyled
+  const preserved: string[] = []
+  const keep = (code: string) => preserve(preserved, code)
 
-  const multiline = destructureParts.join(', ').length > 60 || destructureParts.length > 1
+  const destructureParts = props.map(p => {
+    // Props that aren't valid identifiers are destructured into a renamed binding: 'data-id': dataId
+    const binding = p.local ? `${formatPropKey(p.name)}: ${p.local}` : p.name
+    const inline = inlined.get(p)
+    return inline && 'code' in inline ? { binding, value: indentTypeLines(inline.code, '') } : { binding }
+  })
 
-  const destructureBlock = multiline ? `{\n  ${destructureParts.join(',\n  ')}\n}` : `{ ${destructureParts.join(', ')} }`
+  const multiline = destructureParts.map(part => part.value ? `${part.binding} = ${part.value}` : part.binding).join(', ').length > 60 ||
+    destructureParts.length > resolveFormat(options.format).multilineThreshold
+
+  const destructureItems = destructureParts.map(part => part.value ? `${part.binding} = ${keep(part.value)}` : part.binding)
+  const destructureBlock = multiline ? `{\n  ${destructureItems.join(',\n  ')}\n}` : `{ ${destructureItems.join(', ')} }`
 
 
   const destructureLines = destructureBlock.split('\n')
   const baseIndent = destructureLines[0].match(/^\s*/)?.[0] ?? ''
 
 
-  const hasDefaults = props.some(p => p.defaultValue)
+  // Reactive props destructure needs Vue 3.5, withDefaults() keeps the `props` object
+  const destructured = hasDefaults && defaultsStyle !== 'withDefaults'
 
-  const tsBlockIndented = props
+  for (const prop of props.filter(p => p.local)) {
+    const property = arg.properties.find(p => t.isObjectProperty(p) && resolvePropKey(p, scope) === prop.name) as t.ObjectProperty | undefined
+    const node = property?.key ?? arg.properties[spreads.find(spread => spread.props.includes(prop))?.index ?? 0]
+    const access = destructured ? `destructured as '${prop.local}'` : `read as \`${propsName}[${formatPropKey(prop.name)}]\``
+
+    issues.push({
+      message: `Prop '${prop.name}' is not a valid identifier: it is declared as a quoted key and ${access}.`,
+      start: node?.start ?? 0,
+      end: node?.end ?? 0,
+      severity: 'warning',
+    })
+  }
+  const validatorFallback = options.validatorFallback ?? 'comment'
+
+  const propsDeclaration = options.propsDeclaration ?? 'inline'
+  const bases = spreads.map(spread =>
+    spread.overridden.length ? `Omit<${spread.typeName}, ${spread.overridden.map(name => `'${name}'`).join(' | ')}>` : spread.typeName,
+  )
+  const typeLiteral = declaredProps.length || !bases.length ? buildTypeLiteral(declaredProps, baseIndent, validatorFallback, preserved) : undefined
+  const typeExpression = [...bases, typeLiteral].filter(Boolean).join(' & ')
+
+  // Spread objects declared in the script without a type get one
+  const exported = propsDeclaration === 'inline' ? '' : 'export '
+  const spreadDeclarations = spreads
+    .filter(spread => spread.generated)
+    .map(spread => `${exported}type ${spread.typeName} = ${buildTypeLiteral(spread.props, '', validatorFallback, preserved)}\n\n`)
+
+  // Named declarations are emitted above the defineProps call so other files can import them
+  const typeName = `${options.componentName ?? ''}Props`
+  const typeDeclaration = spreadDeclarations.join('') + (propsDeclaration === 'interface'
+    ? `export interface ${typeName}${bases.length ? ` extends ${bases.join(', ')}` : ''} ${typeLiteral ?? '{}'}\n\n`
+    : propsDeclaration === 'type'
+      ? `export type ${typeName} = ${typeExpression}\n\n`
+      : '')
+  const typeArgument = propsDeclaration === 'inline' ? typeExpression : typeName
+
+  let replacement: string
+
+  if (destructured) {
+    replacement = `${typeDeclaration}const ${destructureBlock} = defineProps<${typeArgument}>()`
+  } else if (hasDefaults) {
+    const defaultsParts = props
+      .filter(p => p.defaultValue)
+      .map(p => {
+        // Function props take the function itself as default, not a factory
+        const value = isFunctionType(p.type) ? p.defaultValue ?? '' : normalizeFactoryDefault(p.defaultValue ?? '')
+        return `${formatPropKey(p.name)}: ${keep(indentTypeLines(value, ''))}`
+      })
+
+    replacement = `${typeDeclaration}const ${propsName} = withDefaults(defineProps<${typeArgument}>(), {\n  ${defaultsParts.join(',\n  ')}\n})`
+  } else {
+    replacement = `${typeDeclaration}const ${propsName} = defineProps<${typeArgument}>()`
+  }
+
+  const runtimeChecks = validatorFallback === 'runtime'
+    ? props
+      .filter(p => p.validator)
+      .map(p => {
+        const value = destructured
+          ? p.local ?? p.name
+          : p.local ? `${propsName}[${formatPropKey(p.name)}]` : `${propsName}.${p.name}`
+        // Like Vue, absent optional props aren't validated, and the check runs again when the prop changes
+        return `watchEffect(() => {\n  if (${value} !== undefined && !(${keep(indentTypeLines(p.validator ?? '', ''))})(${value})) console.warn('Invalid prop: custom validator check failed for prop "${p.name}".')\n})`
+      })
+    : []
+
+  const code = runtimeChecks.length ? `${replacement}\n\n${runtimeChecks.join('\n')}` : replacement
+
+  return { code: formatCode(code, options.format, 'statements', preserved), props, destructured, issues }
+}
+
+/**
+ * Builds the type literal declaring props.
+ * 
+ * @param props The props
+ * @param baseIndent Indentation of the line the declaration starts on
+ * @param validatorFallback How validators that can't be expressed as a type are kept
+ * @param preserved Collects the types copied from the source, kept as written by `formatCode`
+ * @returns The type literal
+ */
+function buildTypeLiteral(
+  props: PropDefinition[],
+  baseIndent: string,
+  validatorFallback: ConvertOptions['validatorFallback'],
+  preserved: string[],
+): string {
+  const members = props
     .map((p, i) => {
-      // TODO: fix the issue with multi line jsdoc comment indents
-      const typeIndented = indentTypeLines(p.type, baseIndent)
-      const comment = p.comment ? p.comment.split('\n').map((line, ci) => (i === 0 && ci === 0 ? line : baseIndent + '  ' + line)).join('\n') + '\n' : ''
-      const line = (i === 0 && !comment ? '' : baseIndent + '  ') + `${p.name}${!p.required ? '?' : ''}: ${typeIndented}`
-      return comment + line
+      // Inferred types are generated, they are formatted with the rest
+      const typeIndented = p.inferred ? indentTypeLines(p.type, baseIndent) : preserve(preserved, indentTypeLines(p.type, baseIndent))
+      const commentText = validatorFallback === 'comment' && p.validator
+        ? [p.comment, validatorComment(p.validator)].filter(Boolean).join('\n')
+        : p.comment
+      const comment = commentText ? commentText.split('\n').map((line, ci) => (i === 0 && ci === 0 ? line : baseIndent + '  ' + line)).join('\n') + '\n' : ''
+      const line = (i === 0 && !comment ? '' : baseIndent + '  ') + `${formatPropKey(p.name)}${!p.required ? '?' : ''}: ${typeIndented}`
+      return comment + line + (p.trailingComment ? ` ${p.trailingComment}` : '')
     })
     .join('\n')
 
-  const replacement = hasDefaults
-    ? `const ${destructureBlock} = defineProps<{\n  ${tsBlockIndented}\n}>()`
-    : `const props = defineProps<{\n  ${tsBlockIndented}\n}>()`
+  return `{\n  ${members}\n}`
+}
+
+/**
+ * Resolves the prop objects declared in the script and spread into defineProps (`...baseProps`)
+ * to the type declaring their props:
+ * - a type named after the object (`BaseProps`), declared or imported by the script
+ * - or a type generated from the object (`const baseProps = { ... } as const`)
+ * 
+ * @param source The defineProps declaration
+ * @param arg The object expression passed to defineProps
+ * @param issues Collects the spreads that can't be resolved, as errors
+ * @param scope Declarations of the whole script
+ * @returns The resolved spreads, in order
+ */
+function resolveSpreads(source: string, arg: t.ObjectExpression, issues: ConversionIssue[], scope?: PropsScope): SharedProps[] {
+  const spreads: SharedProps[] = []
+
+  for (const [index, property] of arg.properties.entries()) {
+    if (!t.isSpreadElement(property)) continue
+
+    const report = (message: string, severity: ConversionIssue['severity']) =>
+      issues.push({ message, start: property.start ?? 0, end: property.end ?? 0, severity })
+
+    if (!t.isIdentifier(property.argument)) {
+      report(`'...${sliceNode(source, property.argument)}' can't be declared as a type: only prop objects declared in the script, or typed by a type named after them, can be spread.`, 'error')
+      continue
+    }
+
+    const name = property.argument.name
+    const typeName = name[0].toUpperCase() + name.slice(1)
+    const declared = !!scope?.types.has(typeName)
+    const object = scope?.constants.get(name)
+
+    // Problems of the shared object are reported on the spread
+    const objectIssues: ConversionIssue[] = []
+    const props = scope && t.isObjectExpression(object) ? extractProps(scope.source, object, objectIssues, scope) : undefined
+    for (const { message, severity } of objectIssues) report(`'${name}': ${message}`, severity)
+
+    // The defaults and validators of an object of another module are unknown, a type alone would drop them
+    if (!props) {
+      report(`The props of '...${name}' are declared in another module, their defaults and validators can't be declared with a type. Convert the props of that module to a '${typeName}' type, or declare the props here.`, 'error')
+      continue
+    }
+
+    spreads.push({ name, typeName, props, generated: !declared, index, overridden: [] })
+  }
 
-  return replacement
+  return spreads
+}
+
+/**
+ * Resolves the props declared more than once in the defineProps object: as in the runtime object,
+ * the last declaration wins. The overridden props of spreads are omitted from their type,
+ * the overridden own props are dropped and reported.
+ * 
+ * @param arg The object expression passed to defineProps
+ * @param ownProps The props declared in the object
+ * @param spreads The resolved spreads, their overridden props are set
+ * @param issues Collects the dropped own props, as warnings
+ * @param scope Declarations of the whole script
+ * @returns The own props that aren't overridden
+ */
+function resolveOverrides(
+  arg: t.ObjectExpression,
+  ownProps: PropDefinition[],
+  spreads: SharedProps[],
+  issues: ConversionIssue[],
+  scope?: PropsScope,
+): PropDefinition[] {
+  const declaredAt: Array<Array<string | undefined>> = arg.properties.map((property, index) => t.isObjectProperty(property)
+    ? [resolvePropKey(property, scope)]
+    : spreads.find(spread => spread.index === index)?.props.map(p => p.name) ?? [])
+  const isOverridden = (name: string, index: number) => declaredAt.some((names, i) => i > index && names.includes(name))
+
+  for (const spread of spreads) {
+    spread.overridden = spread.props.map(p => p.name).filter(name => isOverridden(name, spread.index))
+  }
+
+  return ownProps.filter(prop => {
+    const index = declaredAt.findIndex(names => names.includes(prop.name))
+    const spread = spreads.find(spread => spread.index > index && spread.props.some(p => p.name === prop.name))
+    if (!spread) return true
+
+    const property = arg.properties[index]
+    issues.push({
+      message: `'${prop.name}' is overridden by '...${spread.name}' declared after it, its declaration is dropped.`,
+      start: property.start ?? 0,
+      end: property.end ?? 0,
+      severity: 'warning',
+    })
+    return false
+  })
+}
+
+/**
+ * Collects the declarations of a script that defineProps objects can refer to.
+ * 
+ * @param scriptContent The content of the <script setup> block
+ * @returns The top-level constants, and the declared and imported names
+ */
+function collectScope(scriptContent: string): PropsScope {
+  const scope: PropsScope = { source: scriptContent, constants: new Map(), types: new Set() }
+
+  for (const statement of parseScript(scriptContent).program.body) {
+    const declaration = t.isExportNamedDeclaration(statement) ? statement.declaration : statement
+
+    if (t.isImportDeclaration(declaration)) {
+      for (const specifier of declaration.specifiers) scope.types.add(specifier.local.name)
+    } else if (t.isTSInterfaceDeclaration(declaration) || t.isTSTypeAliasDeclaration(declaration)) {
+      scope.types.add(declaration.id.name)
+    } else if (t.isVariableDeclaration(declaration, { kind: 'const' })) {
+      for (const declarator of declaration.declarations) {
+        // `as const` and `satisfies` only type the value
+        let init = declarator.init
+        while (t.isTSAsExpression(init) || t.isTSSatisfiesExpression(init)) init = init.expression
+
+        if (t.isIdentifier(declarator.id) && init) scope.constants.set(declarator.id.name, init)
+      }
+    }
+  }
+
+  return scope
+}
+
+/**
+ * Resolves the name of a prop: identifier and string keys, and computed keys
+ * of string literals or `const` strings of the script (`[KEY]: String`).
+ * 
+ * @param property The prop in the defineProps object
+ * @param scope Declarations of the whole script
+ * @returns The prop name, or `undefined` if it is only known at runtime
+ */
+function resolvePropKey(property: t.ObjectProperty, scope?: PropsScope): string | undefined {
+  const key = property.computed && t.isIdentifier(property.key) ? scope?.constants.get(property.key.name) : property.key
+
+  if (!property.computed && t.isIdentifier(key)) return key.name
+  if (t.isStringLiteral(key)) return key.value
+  if (t.isTemplateLiteral(key) && !key.expressions.length) return key.quasis[0].value.cooked ?? undefined
+
+  return undefined
+}
+
+/**
+ * Formats a validator that can't be expressed as a type as a TODO comment.
+ * 
+ * @param validator The validator function code
+ * @returns The comment lines
+ */
+function validatorComment(validator: string): string {
+  return validator
+    .split('\n')
+    .map((line, i) => (i === 0 ? `// TODO validator: ${line}` : `// ${line}`))
+    .join('\n')
+}
+
+/**
+ * Extracts the prop definitions from the object passed to defineProps({}).
+ * Types, defaults, validators and comments are kept as written, from the source slices of their nodes.
+ * 
+ * Spread elements are left to the caller, see `resolveSpreads`.
+ * 
+ * @param source The source the nodes were parsed from
+ * @param arg The object expression passed to defineProps
+ * @param issues Collects warnings about props that can't be kept exactly, and errors about props that can't be declared as a type
+ * @param scope Declarations of the script, to resolve computed keys (`[KEY]: String`) and definitions held by constants (`size: sizeProp`)
+ * @returns The extracted prop definitions
+ */
+export function extractProps(
+  source: string,
+  arg: t.ObjectExpression,
+  issues: ConversionIssue[] = [],
+  scope?: PropsScope,
+): PropDefinition[] {
+  const props: PropDefinition[] = []
+  const slice = (node: t.Node | t.Comment) => sliceNode(source, node)
+
+  for (const [index, prop] of arg.properties.entries()) {
+    if (t.isSpreadElement(prop)) continue
+
+    // Keep the real prop name, so parents passing it keep working
+    const name = t.isObjectProperty(prop) ? resolvePropKey(prop, scope) : undefined
+    let local: string | undefined
+
+    if (name === undefined || !t.isObjectProperty(prop)) {
+      issues.push({
+        message: t.isObjectProperty(prop)
+          ? `The prop name of '${prop.computed ? `[${slice(prop.key)}]` : slice(prop.key)}' can't be resolved, it can't be declared as a type. Use a string key or a \`const\` string declared in the script.`
+          : 'A prop declared as a method can\'t be declared as a type.',
+        start: prop.start ?? 0,
+        end: prop.end ?? 0,
+        severity: 'error',
+      })
+      continue
+    }
+
+    // Keys that can't be a variable name get a renamed destructure binding:
+    // "data-id" → 'data-id': dataId
+    // "some key" → 'some key': someKey
+    // "class" → class: _class
+    if (!t.isValidIdentifier(name)) local = normalizePropKey(name)
+
+    let defaultValue: string | undefined
+    let required = false
+    let type = 'any'
+    let validator: string | undefined
+    let comment: string | undefined
+    let defaultNode: t.Node | undefined
+
+    // A definition held by a constant of the script is read like an inline one: size: sizeProp
+    const constant = t.isIdentifier(prop.value) ? scope?.constants.get(prop.value.name) : undefined
+    const definition = scope && t.isObjectExpression(constant) ? constant : prop.value
+    const definitionSource = definition === prop.value ? source : scope?.source ?? source
+    const sliceDefinition = (node: t.Node) => sliceNode(definitionSource, node)
+
+    if (t.isIdentifier(prop.value) && definition === prop.value && !/^[A-Z]/.test(prop.value.name)) {
+      issues.push({
+        message: `The definition of '${name}' is held by '${prop.value.name}', which isn't a prop object declared in the script: it can't be declared as a type. Declare the prop here.`,
+        start: prop.start ?? 0,
+        end: prop.end ?? 0,
+        severity: 'error',
+      })
+      continue
+    }
+
+    if (t.isObjectExpression(definition)) {
+      let hasPropType = false
+      let validatorUnion: string | undefined
+
+      for (const p of definition.properties) {
+        if (t.isObjectProperty(p) && t.isIdentifier(p.key)) {
+          const keyName = p.key.name
+          if (keyName === 'default') {
+            defaultValue = sliceDefinition(p.value)
+            defaultNode = p.value
+          }
+          if (keyName === 'required' && t.isBooleanLiteral(p.value)) required = p.value.value
+          if (keyName === 'type') {
+            type = extractTypeFromNode(definitionSource, p.value)
+            hasPropType = t.isTSAsExpression(p.value)
+          }
+          if (keyName === 'validator') {
+            // Validators held by variables or built by calls (`validator: isSize`) are kept as written
+            if (t.isArrowFunctionExpression(p.value) || t.isFunctionExpression(p.value)) validatorUnion = extractValidatorUnion(definitionSource, p.value)
+            validator = sliceDefinition(p.value)
+          }
+        } else if (t.isObjectMethod(p) && t.isIdentifier(p.key, { name: 'default' })) {
+          // Method shorthand: default() { return [] }, a factory like `() => []`
+          defaultNode = t.arrowFunctionExpression(p.params, p.body)
+          defaultValue = `(${p.params.map(sliceDefinition).join(', ')}) => ${sliceDefinition(p.body)}`
+        } else if (t.isObjectMethod(p) && t.isIdentifier(p.key, { name: 'validator' })) {
+          // Method shorthand: validator(value) { ... }
+          validatorUnion = extractValidatorUnion(definitionSource, t.arrowFunctionExpression(p.params, p.body))
+          validator = `(${p.params.map(sliceDefinition).join(', ')}) => ${sliceDefinition(p.body)}`
+        }
+      }
+
+      // A literal `includes` check is expressed as a union type, unless PropType<T> already declares the type
+      if (validatorUnion && !hasPropType) {
+        type = validatorUnion
+        validator = undefined
+      }
+    } else if (
+      t.isIdentifier(prop.value) ||
+      t.isMemberExpression(prop.value) ||
+      t.isArrayExpression(prop.value) ||
+      t.isNullLiteral(prop.value) ||
+      t.isTSAsExpression(prop.value)
+    ) {
+      // Shorthand type syntax (title: String, value: [String, Number], date: Date)
+      type = extractTypeFromNode(source, prop.value)
+    } else {
+      defaultValue = slice(prop.value)
+      defaultNode = prop.value
+    }
+
+    // Without `type`, the default tells the type: `default: () => []` → unknown[]
+    const inferred = type === 'any' && defaultNode ? inferTypeFromDefault(defaultNode) : undefined
+    if (inferred) type = inferred
+
+    if (isLooseType(type)) {
+      issues.push({
+        message: type === 'any'
+          ? `Prop '${name}' has no type${defaultNode ? ' and its type can\'t be inferred from its default' : ''}: it is typed as 'any'. Declare its type, with a PropType<T> cast if needed.`
+          : `Prop '${name}' is typed as '${type}', its constructor doesn't tell more. Declare its type with a PropType<T> cast.`,
+        start: prop.start ?? 0,
+        end: prop.end ?? 0,
+        severity: 'warning',
+      })
+    }
+
+    // Babel attaches a comment after the comma (`title: String, // text`) to the next prop
+    const previous = arg.properties[index - 1]
+    const leading = (prop.leadingComments ?? []).filter(c => !previous || !isOnSameLine(source, previous, c))
+    if (leading.length) comment = leading.map(slice).join('\n')
+
+    const next = arg.properties[index + 1]
+    const trailing = [...(prop.trailingComments ?? []), ...(next?.leadingComments ?? [])].filter(c => isOnSameLine(source, prop, c))
+    const trailingComment = trailing.length ? trailing.map(slice).join(' ') : undefined
+
+    props.push({ name, type, required, defaultValue, validator, comment, trailingComment, local, inferred: inferred ? true : undefined })
+  }
+
+  return props
+}
+
+/**
+ * Extracts a string-literal union type from a validator that only checks
+ * membership in a literal array, e.g. `value => ['sm', 'md'].includes(value)`.
+ * 
+ * @param fn The validator function
+ * @returns The union type (e.g. `'sm' | 'md'`), or `undefined` if the validator is not a simple `includes` check
+ */
+function extractValidatorUnion(source: string, fn: t.ArrowFunctionExpression | t.FunctionExpression): string | undefined {
+  const param = fn.params[0]
+  if (fn.params.length !== 1 || !t.isIdentifier(param)) return undefined
+
+  // Accept both expression bodies and a block containing a single return statement
+  let expr: t.Node | null | undefined = fn.body
+  if (t.isBlockStatement(fn.body)) {
+    const statement = fn.body.body[0]
+    expr = fn.body.body.length === 1 && t.isReturnStatement(statement) ? statement.argument : undefined
+  }
+
+  if (
+    !t.isCallExpression(expr) ||
+    !t.isMemberExpression(expr.callee) ||
+    !t.isIdentifier(expr.callee.property, { name: 'includes' }) ||
+    expr.arguments.length !== 1 ||
+    !t.isIdentifier(expr.arguments[0], { name: param.name })
+  ) {
+    return undefined
+  }
+
+  // Unwrap `[...] as const`
+  let list: t.Node = expr.callee.object
+  if (t.isTSAsExpression(list)) list = list.expression
+  if (!t.isArrayExpression(list) || !list.elements.length) return undefined
+
+  const literals: string[] = []
+
+  for (const element of list.elements) {
+    if (
+      !t.isStringLiteral(element) &&
+      !t.isNumericLiteral(element) &&
+      !t.isBooleanLiteral(element) &&
+      !t.isNullLiteral(element)
+    ) {
+      return undefined
+    }
+    literals.push(sliceNode(source, element))
+  }
+
+  return [...new Set(literals)].join(' | ')
 }
 
 /** Extracts a TypeScript type string from a Babel AST node.
  * 
+ * @param source The source the node was parsed from, `PropType<T>` types are kept as written
  * @param node The Babel AST node representing the type
  * @returns The extracted type as a string
  */
-function extractTypeFromNode(node: t.Node): string {
+function extractTypeFromNode(source: string, node: t.Node): string {
   if (t.isIdentifier(node)) {
     switch (node.name) {
       case 'String':
@@ -192,138 +778,367 @@ function extractTypeFromNode(node: t.Node): string {
         return 'Record<string, any>'
       case 'Function':
         return '(...args: any[]) => any'
+      case 'Symbol':
+        return 'symbol'
+      case 'BigInt':
+        return 'bigint'
+      case 'Promise':
+        return 'Promise<unknown>'
+      case 'Map':
+        return 'Map<unknown, unknown>'
+      case 'Set':
+        return 'Set<unknown>'
+      case 'WeakMap':
+        return 'WeakMap<object, unknown>'
+      case 'WeakSet':
+        return 'WeakSet<object>'
       default:
+        // Date, RegExp, Error and user classes: keep the instance type
         return node.name
     }
   }
 
-  // Handle PropType<Type>
+  // `type: null` accepts any value
+  if (t.isNullLiteral(node)) return 'unknown'
+
+  // Namespaced classes: `type: Models.User`
+  if (t.isMemberExpression(node) && isEntityName(node)) return generate(node).code
+
+  // Multiple constructors: `type: [String, Number]`
+  if (t.isArrayExpression(node) && node.elements.length) {
+    const types: string[] = []
+
+    for (const element of node.elements) {
+      // `null` inside the list allows null values: [String, null] → string | null
+      if (t.isNullLiteral(element)) {
+        types.push('null')
+        continue
+      }
+
+      if (!element || t.isSpreadElement(element)) return 'any'
+
+      const type = extractTypeFromNode(source, element)
+      if (type === 'any' || type === 'unknown') return type
+
+      types.push(type)
+    }
+
+    const unique = [...new Set(types)]
+
+    // Function types must be parenthesized inside a union
+    return unique.length > 1
+      ? unique.map(type => (type.includes('=>') ? `(${type})` : type)).join(' | ')
+      : unique[0]
+  }
+
+  // Handle PropType<Type>, also on the array form: [String, Object] as PropType<string | Config>
   if (
     t.isTSAsExpression(node) &&
     t.isTSTypeReference(node.typeAnnotation) &&
     t.isIdentifier(node.typeAnnotation.typeName, { name: 'PropType' }) &&
     node.typeAnnotation.typeParameters?.params.length
   ) {
-    return generate(node.typeAnnotation.typeParameters.params[0]).code
+    return sliceNode(source, node.typeAnnotation.typeParameters.params[0])
   }
 
   return 'any'
 }
 
 /**
- * Normalizes default value code by removing unnecessary wrappers
- * and converting object-literals with numeric keys into array-literals.
+ * Checks whether a prop type is `any`, or contains it: `any[]`, `Record<string, any>`, `(...args: any[]) => any`.
  * 
- * @param code The original default value code
- * @returns The normalized default value code
+ * @param type The TypeScript type of the prop
+ * @returns `true` if the prop isn't fully type checked
  */
-function normalizeDefault(code: string): string {
-  // remove arrow function wrapper
-  if (code.startsWith('() =>')) {
-    code = code.replace(/^\(\)\s*=>\s*/, '')
+export function isLooseType(type: string): boolean {
+  return /\bany\b/.test(type)
+}
+
+/**
+ * Infers the type of a prop without `type` from the literal shape of its default value,
+ * unwrapping factories: strings, numbers and booleans, arrays (`[]` → `unknown[]`) and object literals
+ * (`{ a: 1 }` → `{ a: number }`). The type is widened, `'md'` is a `string`.
+ * Object types are generated like the props type literal: a member per line, without separators.
+ * 
+ * @param node The default value, or a part of it
+ * @returns The inferred type, or `undefined` if the default doesn't tell it
+ */
+export function inferTypeFromDefault(node: t.Node): string | undefined {
+  if (t.isArrowFunctionExpression(node) || t.isFunctionExpression(node)) {
+    if (!t.isBlockStatement(node.body)) return inferTypeFromDefault(node.body)
+
+    const statement = node.body.body.length === 1 ? node.body.body[0] : undefined
+    return t.isReturnStatement(statement) && statement.argument ? inferTypeFromDefault(statement.argument) : undefined
   }
 
-  // remove wrapping parentheses from Object type: ({ ... }) -> { ... }
-  if (code.startsWith('(') && code.endsWith(')')) {
-    const inside = code.slice(1, -1).trim()
-    if (inside.startsWith('{') && inside.endsWith('}')) {
-      code = inside
+  if (t.isStringLiteral(node) || t.isTemplateLiteral(node)) return 'string'
+  if (t.isNumericLiteral(node) || (t.isUnaryExpression(node, { operator: '-' }) && t.isNumericLiteral(node.argument))) return 'number'
+  if (t.isBooleanLiteral(node)) return 'boolean'
+  if (t.isBigIntLiteral(node)) return 'bigint'
+
+  if (t.isArrayExpression(node)) {
+    const types = node.elements.map(element => (element && !t.isSpreadElement(element) ? inferTypeFromDefault(element) : undefined))
+    if (!types.length || types.some(type => !type)) return 'unknown[]'
+
+    const unique = [...new Set(types)]
+    return unique.length > 1 ? `(${unique.join(' | ')})[]` : `${unique[0]}[]`
+  }
+
+  if (t.isObjectExpression(node)) {
+    const members: string[] = []
+
+    for (const property of node.properties) {
+      const name = t.isObjectProperty(property) && !property.computed ? getPropertyName(property) : undefined
+      if (!name || !t.isObjectProperty(property)) return 'Record<string, unknown>'
+
+      members.push(`${formatPropKey(name)}: ${(inferTypeFromDefault(property.value) ?? 'unknown').replace(/\n/g, '\n  ')}`)
     }
+
+    return members.length ? `{\n  ${members.join('\n  ')}\n}` : 'Record<string, unknown>'
   }
 
-  // Try to parse with Babel to reliably detect arrays or object-literals
+  return undefined
+}
+
+/**
+ * Gets the source of a node, without the indentation of the line it starts on,
+ * so that its lines can be indented at their new position.
+ * 
+ * @param source The source the node was parsed from
+ * @param node The node, or comment
+ * @returns The source of the node
+ */
+export function sliceNode(source: string, node: t.Node | t.Comment): string {
+  const start = node.start ?? 0
+  const lineStart = source.lastIndexOf('\n', start - 1) + 1
+  const indent = source.slice(lineStart).match(/^[ \t]*/)?.[0] ?? ''
+
+  return source
+    .slice(start, node.end ?? 0)
+    .split('\n')
+    .map((line, i) => (i > 0 && line.startsWith(indent) ? line.slice(indent.length) : line))
+    .join('\n')
+}
+
+/**
+ * Checks whether a comment starts on the line a node ends on.
+ * 
+ * @param source The source the node was parsed from
+ * @param node The node
+ * @param comment The comment
+ * @returns `true` if there is no line break between the node and the comment
+ */
+function isOnSameLine(source: string, node: t.Node, comment: t.Comment): boolean {
+  return (comment.start ?? 0) > (node.end ?? 0) && !source.slice(node.end ?? 0, comment.start ?? 0).includes('\n')
+}
+
+/**
+ * Checks whether a member expression is a plain dotted name (e.g. `Models.User`).
+ * 
+ * @param node The expression to check
+ * @returns `true` if the expression only consists of identifiers
+ */
+function isEntityName(node: t.Expression): boolean {
+  if (t.isIdentifier(node)) return true
+  return t.isMemberExpression(node) && !node.computed && t.isIdentifier(node.property) && isEntityName(node.object)
+}
+
+/**
+ * Normalizes a default value for withDefaults(), where factories are still
+ * required for objects and arrays: only factories returning primitive
+ * literals are unwrapped, everything else is kept as-is.
+ * 
+ * @param code The original default value code
+ * @returns The normalized default value code
+ */
+export function normalizeFactoryDefault(code: string): string {
   try {
-    // Wrap in parentheses to make single expressions parse cleanly
-    const parsed = babel.parse(`(${code})`, {
-      sourceType: 'module',
-      plugins: ['typescript'],
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    }) as any
-
-    // drill down to the expression node
-    let expr = parsed.program?.body?.[0]?.expression
-    if (!expr) throw new Error('no-expression')
-
-    // Unwrap ParenthesizedExpression if present
-    if (expr.type === 'ParenthesizedExpression') expr = expr.expression
-
-    // If it's already an ArrayExpression, return a pretty array literal
-    if (expr.type === 'ArrayExpression') {
-      // Use generator to keep formatting consistent with other outputs
-      return generate(expr).code
+    const expr = babel.parseExpression(code, { plugins: ['typescript'] })
+
+    if (t.isArrowFunctionExpression(expr) && !expr.params.length) {
+      if (isPrimitiveLiteral(expr.body)) return code.slice(expr.body.start ?? 0, expr.body.end ?? 0)
+
+      // Keep the factory, but collapse its returned literal like destructure defaults
+      if (t.isObjectExpression(expr.body)) return `() => (${normalizeDefault(code)})`
+      if (t.isArrayExpression(expr.body)) return `() => ${normalizeDefault(code)}`
     }
+  } catch {
+    // leave as-is if parsing fails
+  }
 
-    // If it's an ObjectExpression, check whether keys are numeric indexes
-    if (expr.type === 'ObjectExpression') {
-      const props = expr.properties
+  return code
+}
 
-      // Ensure every property is a simple property with numeric-like key
-      const numericEntries: Array<string | undefined> = []
-      let allNumericKeys = props.length > 0
+/**
+ * Checks whether a node is a primitive literal (string, number, boolean, null, ...).
+ * 
+ * @param node The node to check
+ * @returns `true` if the node is a primitive literal
+ */
+function isPrimitiveLiteral(node: t.Node): boolean {
+  if (t.isTemplateLiteral(node)) return !node.expressions.length
+  if (t.isUnaryExpression(node, { operator: '-' })) return t.isNumericLiteral(node.argument)
+  return t.isLiteral(node) && !t.isRegExpLiteral(node)
+}
 
-      for (const p of props) {
-        if (p.type !== 'ObjectProperty') {
-          allNumericKeys = false
-          break
-        }
+/**
+ * Turns the `default` option of a prop into a destructure default.
+ *
+ * Vue compiles non-literal destructure defaults back into a factory, so calls like
+ * `() => new Map()` still run once per component instance once unwrapped. These can't be inlined:
+ * - factories using their `props` argument: destructure defaults can't access the other props
+ * - factories with statements: only a single `return` can be unwrapped
+ * - factories of untyped props returning a function or a variable: Vue would call the value as a factory
+ *
+ * @param prop The prop, with a default value
+ * @returns The destructure default code, or the reason why the default can't be inlined
+ */
+function inlineDefault(prop: PropDefinition): { code: string } | { reason: string } {
+  const code = prop.defaultValue ?? ''
 
-        // Accept NumericLiteral keys or string literals that are digits: '0', '1', ...
-        let keyIndex: number | null = null
-        if (p.key.type === 'NumericLiteral') {
-          keyIndex = p.key.value
-        } else if (p.key.type === 'StringLiteral' && /^[0-9]+$/.test(p.key.value)) {
-          keyIndex = parseInt(p.key.value, 10)
-        } else {
-          allNumericKeys = false
-          break
-        }
+  // Function props take the function itself as default, not a factory
+  if (isFunctionType(prop.type)) return { code }
 
-        // store generated value at the numeric index
-        if (keyIndex) {
-          numericEntries[keyIndex] = generate(p.value).code
-        }
-      }
+  let expr: t.Expression
+  try {
+    expr = babel.parseExpression(code, { plugins: ['typescript'] })
+  } catch {
+    return { code }
+  }
 
-      // If all keys were numeric and we have a dense 0..n set, convert to array literal
-      if (allNumericKeys) {
-        // find max index and verify contiguous 0..max
-        const maxIndex = numericEntries.length - 1
-        let contiguous = true
-        for (let i = 0; i <= maxIndex; i++) {
-          if (numericEntries[i] === undefined) {
-            contiguous = false
-            break
-          }
-        }
+  if (!t.isArrowFunctionExpression(expr) && !t.isFunctionExpression(expr)) return { code: normalizeDefault(code) }
 
-        if (contiguous) {
-          return `[${numericEntries.join(', ')}]`
-        }
-      }
+  const param = expr.params[0]
+  const paramName = t.isIdentifier(param) ? param.name : undefined
+  let usesProps = !!param && !paramName
 
-      // Not numeric-contiguous: fallthrough to later heuristics (maybe keep object)
-    }
+  t.traverseFast(expr.body, node => {
+    if (t.isIdentifier(node, { name: paramName }) || t.isThisExpression(node)) usesProps = true
+  })
+
+  if (usesProps) return { reason: 'it is computed from other props' }
+
+  let body: t.Node | null | undefined = expr.body
+  if (t.isBlockStatement(body)) {
+    const statement = body.body.length === 1 ? body.body[0] : undefined
+    body = t.isReturnStatement(statement) ? statement.argument : undefined
+  }
+
+  if (!body) return { reason: 'its factory runs statements' }
+
+  if ((prop.type === 'any' || prop.type === 'unknown') && (t.isIdentifier(body) || t.isFunction(body))) {
+    return { reason: 'the prop has no type, so Vue would call the returned value as a factory' }
+  }
+
+  return { code: normalizeDefault(code.slice(body.start ?? 0, body.end ?? 0)) }
+}
+
+/**
+ * Checks whether a prop type is a function type (`Function`, `(id: number) => void`),
+ * or a union with one: such props take the function itself as default, not a factory.
+ *
+ * @param type The TypeScript type of the prop
+ * @returns `true` if the type accepts functions
+ */
+function isFunctionType(type: string): boolean {
+  try {
+    const statement = parseScript(`type T = ${type}`).program.body[0]
+    if (!t.isTSTypeAliasDeclaration(statement)) return false
+
+    const annotation = statement.typeAnnotation
+    const members = t.isTSUnionType(annotation) ? annotation.types : [annotation]
+
+    return members.some(member => {
+      const unwrapped = t.isTSParenthesizedType(member) ? member.typeAnnotation : member
+      return t.isTSFunctionType(unwrapped) || (t.isTSTypeReference(unwrapped) && t.isIdentifier(unwrapped.typeName, { name: 'Function' }))
+    })
   } catch {
-    // parsing failed -> fall back to older heuristics below
+    return false
   }
+}
+
+/**
+ * Gets the name of a prop declared in the defineProps object.
+ *
+ * @param property The object property
+ * @returns The prop name, or `undefined` for computed keys
+ */
+function getPropertyName(property: t.ObjectProperty): string | undefined {
+  if (t.isIdentifier(property.key)) return property.key.name
+  if (t.isStringLiteral(property.key)) return property.key.value
+  return undefined
+}
+
+/**
+ * Normalizes default value code for a destructure default, on the AST only (the code is never evaluated):
+ * - factories are unwrapped: `() => ({ a: 1 })` → `{ a: 1 }`
+ * - objects of primitive literals are collapsed to a single line
+ * - objects with contiguous numeric keys become arrays: `{ 0: 'a', 1: 'b' }` → `['a', 'b']`
+ * 
+ * @param code The original default value code
+ * @returns The normalized default value code, unchanged if it doesn't parse
+ */
+function normalizeDefault(code: string): string {
+  let expr: t.Expression
 
-  // Fallback heuristic: collapse simple objects to single-line using runtime eval.
-  // This handles cases like `{ a: 1, b: 2 }` and turns them into "{ a: 1 }" one-liners.
   try {
-    const obj = new Function(`return ${code}`)()
-    if (typeof obj === 'object' && obj !== null) {
-      const keys = Object.keys(obj)
-      if (keys.length && keys.every(k => typeof obj[k] !== 'object')) {
-        // simple object: keep one line and use single quotes for strings to match existing formatting
-        const parts = keys.map(k => `${k}: ${JSON.stringify(obj[k]).replace(/"/g, '\'')}`)
-        return `{ ${parts.join(', ')} }`
-      }
-    }
+    expr = babel.parseExpression(code, { plugins: ['typescript'] })
   } catch {
-    // leave as-is if runtime parsing fails
+    return code
   }
 
-  return code
+  // Only expression bodies are unwrapped, a block body has statements to run
+  if (t.isArrowFunctionExpression(expr) && !expr.params.length && !t.isBlockStatement(expr.body)) {
+    expr = expr.body
+  }
+
+  const source = (node: t.Node) => code.slice(node.start ?? 0, node.end ?? 0)
+
+  if (!t.isObjectExpression(expr)) return source(expr)
+
+  const properties = expr.properties
+  if (!properties.length) return '{}'
+
+  const elements = numericKeyElements(expr)
+  if (elements) return `[${elements.map(source).join(', ')}]`
+
+  const simple = properties.every(p => t.isObjectProperty(p) && !p.computed && isSimpleValue(p.value))
+  if (!simple) return source(expr)
+
+  return `{ ${properties.map(p => `${source((p as t.ObjectProperty).key)}: ${source((p as t.ObjectProperty).value)}`).join(', ')} }`
+}
+
+/**
+ * Gets the values of an object whose keys are the contiguous indexes `0..n`, in index order.
+ * 
+ * @param object The object expression
+ * @returns The values, or `undefined` if the keys aren't contiguous numeric indexes
+ */
+function numericKeyElements(object: t.ObjectExpression): t.Node[] | undefined {
+  const elements: t.Node[] = []
+
+  for (const property of object.properties) {
+    if (!t.isObjectProperty(property) || property.computed) return undefined
+
+    // Accept numeric keys and digit-only string keys: 0, '1'
+    const key = property.key
+    const index = t.isNumericLiteral(key) ? key.value : t.isStringLiteral(key) && /^\d+$/.test(key.value) ? Number(key.value) : NaN
+    if (!Number.isInteger(index) || elements[index]) return undefined
+
+    elements[index] = property.value
+  }
+
+  return elements.length === object.properties.length ? elements : undefined
+}
+
+/**
+ * Checks whether a value can be kept inline in a collapsed object: a primitive literal or `undefined`.
+ * 
+ * @param node The value
+ * @returns `true` if the value is simple
+ */
+function isSimpleValue(node: t.Node): boolean {
+  return isPrimitiveLiteral(node) || t.isIdentifier(node, { name: 'undefined' })
 }
 
 /**
@@ -341,18 +1156,31 @@ function indentTypeLines(typeStr: string, indent: string) {
 }
 
 /**
- * Normalizes a prop key string by removing non-alphanumeric characters
- * and converting to camelCase.
+ * Formats a prop name as an object/type key, quoting it if it isn't a valid identifier.
+ * 
+ * @param name The prop name
+ * @returns The formatted key
+ */
+export function formatPropKey(name: string): string {
+  return t.isValidIdentifier(name, false) ? name : `'${name.replace(/\\/g, '\\\\').replace(/'/g, '\\\'')}'`
+}
+
+/**
+ * Derives a variable name from a prop key by removing non-alphanumeric
+ * characters and converting to camelCase. The case of each word is kept.
  * 
  * @param key The original prop key string
- * @returns The normalized prop key
+ * @returns A valid identifier for the prop
  */
 function normalizePropKey(key: string): string {
   // remove anything not alphanumeric or whitespace
-  const cleaned = key.replace(/[^a-zA-Z0-9 ]+/g, ' ').trim()
+  const cleaned = key.replace(/[^a-zA-Z0-9_$ ]+/g, ' ').trim()
   // convert to camelCase
-  return cleaned
+  const name = cleaned
     .split(/\s+/)
-    .map((w, i) => i === 0 ? w.toLowerCase() : w.charAt(0).toUpperCase() + w.slice(1).toLowerCase())
+    .map((w, i) => i === 0 ? w : w.charAt(0).toUpperCase() + w.slice(1))
     .join('')
+
+  // prefix names that still aren't valid: '123' → _123, 'class' → _class
+  return t.isValidIdentifier(name) ? name : `_${name}`
 }
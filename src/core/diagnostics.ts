@@ -1,7 +1,35 @@
 import * as vscode from 'vscode'
-import { parse } from '@vue/compiler-sfc'
-import { isScriptSetupTs } from '../shared'
-import { findObjectDefineProps } from '../core/converter'
+import {
+  convertSfc,
+  findConvertibleEmits,
+  findConvertibleProps,
+  findSfcModelPairs,
+  findSfcOptionsProps,
+  resolveScriptBlock,
+} from '../core/sfc'
+import { PREVIEW_SCHEME } from '../core/preview'
+import { getConvertOptions, getDiagnosticSeverity, isDefineModelAvailable, isSupportedDocument } from '../core/settings'
+import type { ConversionIssue, ConvertOptions } from '../types'
+
+/**
+ * Vue documentation of the syntax each diagnostic suggests, linked from the diagnostic code.
+ */
+const DOCS = {
+  props: 'https://vuejs.org/guide/typescript/composition-api.html#typing-component-props',
+  emits: 'https://vuejs.org/guide/typescript/composition-api.html#typing-component-emits',
+  model: 'https://vuejs.org/guide/components/v-model.html',
+  options: 'https://vuejs.org/guide/typescript/options-api.html#typing-component-props',
+}
+
+/**
+ * Delay of the scan after an edit, so the document isn't parsed on every keystroke.
+ */
+const SCAN_DELAY = 300
+
+/**
+ * The scans waiting for the edits of a document to stop, by document URI.
+ */
+const pendingScans = new Map<string, ReturnType<typeof setTimeout>>()
 
 /**
  * Creates a VSCode diagnostic collection for for detecting outdated object-style defineProps usage inside Vue SFCs
@@ -13,50 +41,199 @@ export function createDiagnosticCollection(): vscode.DiagnosticCollection {
 }
 
 /**
- * Scans a Vue document for object-style defineProps usage and adds diagnostics.
- * Only runs inside `<script setup lang="ts">` blocks.
+ * Finds the document ranges of all object-style defineProps usages.
+ * Only looks inside `<script setup lang="ts">` blocks, and JavaScript blocks if enabled.
+ * 
+ * @param doc The text document to search
+ * @param options The conversion options of the document
+ * @returns The ranges of the defineProps declarations, or `null` if the document has no `<script setup>` block to convert
+ */
+export function findDefinePropsRanges(doc: vscode.TextDocument, options = getConvertOptions(doc)): vscode.Range[] | null {
+  return findScriptSetupRanges(doc, findConvertibleProps, options)
+}
+
+/**
+ * Finds the document ranges of all runtime defineEmits calls.
+ * Only looks inside `<script setup lang="ts">` blocks, and JavaScript blocks if enabled.
+ * 
+ * @param doc The text document to search
+ * @param options The conversion options of the document
+ * @returns The ranges of the defineEmits calls, or `null` if the document has no `<script setup>` block to convert
+ */
+export function findDefineEmitsRanges(doc: vscode.TextDocument, options = getConvertOptions(doc)): vscode.Range[] | null {
+  return findScriptSetupRanges(doc, findConvertibleEmits, options)
+}
+
+/**
+ * Finds the document ranges of the nodes matched in the script to convert.
+ * 
+ * @param doc The text document to search
+ * @param find Finds the nodes inside the script
+ * @param options The conversion options of the document
+ * @returns The ranges of the nodes, or `null` if the document has no `<script setup>` block to convert
+ */
+function findScriptSetupRanges(
+  doc: vscode.TextDocument,
+  find: typeof findConvertibleProps | typeof findConvertibleEmits,
+  options: ConvertOptions,
+): vscode.Range[] | null {
+  const block = resolveScriptBlock(doc.getText(), options)
+  if (!block) return null
+
+  const nodes = find(block)
+  const ranges: vscode.Range[] = []
+
+  for (const node of nodes) {
+    // skip malformed nodes
+    if (node.start == null || node.end == null) continue
+
+    // offsets inside the script content must be shifted by the offset of the script
+    const startOffset = block.offset + (node.start ?? 0)
+    const endOffset = block.offset + (node.end ?? 0)
+
+    ranges.push(new vscode.Range(
+      doc.positionAt(startOffset),
+      doc.positionAt(endOffset),
+    ))
+  }
+
+  return ranges
+}
+
+/**
+ * Finds the `v-model` prop/emit pairs that can be replaced by `defineModel()`.
+ * 
+ * @param doc The text document to search
+ * @returns The pairs, with the range of the prop declaration
+ */
+function findModelPairRanges(doc: vscode.TextDocument): Array<{ name: string, event: string, range: vscode.Range }> {
+  try {
+    return (findSfcModelPairs(doc.getText()) ?? []).map(({ name, event, start, end }) => ({
+      name,
+      event,
+      range: new vscode.Range(doc.positionAt(start), doc.positionAt(end)),
+    }))
+  } catch {
+    // incomplete code while typing
+    return []
+  }
+}
+
+/**
+ * Scans a document once its edits stop for `SCAN_DELAY` ms, see `scanDocument`.
+ * 
+ * @param doc The edited text document
+ * @param diagnostics The diagnostic collection to update
+ */
+export function scheduleScan(doc: vscode.TextDocument, diagnostics: vscode.DiagnosticCollection): void {
+  const key = doc.uri.toString()
+  clearTimeout(pendingScans.get(key))
+
+  pendingScans.set(key, setTimeout(() => {
+    pendingScans.delete(key)
+    scanDocument(doc, diagnostics)
+  }, SCAN_DELAY))
+}
+
+/**
+ * Cancels the pending scan of a closed document.
+ * 
+ * @param doc The closed text document
+ */
+export function cancelScan(doc: vscode.TextDocument): void {
+  const key = doc.uri.toString()
+  clearTimeout(pendingScans.get(key))
+  pendingScans.delete(key)
+}
+
+/**
+ * Scans a Vue document (or a standalone TypeScript file) for object-style defineProps
+ * and runtime defineEmits usage and adds diagnostics.
+ * Only runs inside `<script setup lang="ts">` blocks, and JavaScript blocks if enabled.
  * 
  * @param doc The text document to scan
  * @param diagnostics The diagnostic collection to update
  */
 export function scanDocument(doc: vscode.TextDocument, diagnostics: vscode.DiagnosticCollection): void {
-  if (doc.languageId !== 'vue') return
+  // The converted side of a preview
+  if (doc.uri.scheme === PREVIEW_SCHEME) return
+
+  if (!isSupportedDocument(doc)) {
+    // A TypeScript file that doesn't call the macros anymore
+    if (diagnostics.has(doc.uri)) diagnostics.delete(doc.uri)
+    return
+  }
+
+  // The settings and project files are read once per scan
+  const severity = getDiagnosticSeverity(doc)
+  const options = getConvertOptions(doc)
 
-  const text = doc.getText()
-  const sfc = parse(text)
-  const scriptSetup = sfc.descriptor.scriptSetup
+  let ranges: vscode.Range[] | null
+  let emitsRanges: vscode.Range[]
+  try {
+    ranges = findDefinePropsRanges(doc, options)
+    emitsRanges = findDefineEmitsRanges(doc, options) ?? []
+  } catch {
+    // incomplete code while typing
+    ranges = []
+    emitsRanges = []
+  }
 
-  // Only process <script setup lang="ts">
-  if (!scriptSetup || !isScriptSetupTs(text)) {
-    diagnostics.set(doc.uri, [])
+  if (!ranges) {
+    // Options API components live in a <script> block without <script setup>
+    diagnostics.set(doc.uri, findOptionsPropsDiagnostics(doc, severity, options))
     return
   }
 
-  // Find all defineProps({}) object-style occurrences in the script content
-  const nodes = findObjectDefineProps(scriptSetup.content)
   const foundDiagnostics: vscode.Diagnostic[] = []
 
-  for (const node of nodes) {
-    // skip malformed nodes
-    if (node.start == null || node.end == null) continue
+  for (const range of ranges) {
+    const diagnostic = new vscode.Diagnostic(
+      range,
+      'Object-style defineProps() used. Type-based props are checked by TypeScript in this component and in its parents\' templates, and need no PropType casts. Convert to the type-safe variant.',
+      severity,
+    )
 
-    // offsets inside scriptSetup.content must be shifted by scriptSetup.loc.start.offset
-    const startOffset = scriptSetup.loc.start.offset + (node.start ?? 0)
-    const endOffset = scriptSetup.loc.start.offset + (node.end ?? 0)
+    // Used by the CodeActionProvider to trigger fixes, links to the Vue docs
+    diagnostic.code = { value: 'props.TypeSyntax', target: vscode.Uri.parse(DOCS.props) }
 
-    const range = new vscode.Range(
-      doc.positionAt(startOffset),
-      doc.positionAt(endOffset),
+    foundDiagnostics.push(diagnostic)
+  }
+
+  for (const range of emitsRanges) {
+    const diagnostic = new vscode.Diagnostic(
+      range,
+      'Runtime defineEmits() used. Type-based emits check the event names and payloads of emit() calls and of the listeners in parent templates. Convert to the type-safe variant.',
+      severity,
     )
+    diagnostic.code = { value: 'emits.TypeSyntax', target: vscode.Uri.parse(DOCS.emits) }
+
+    foundDiagnostics.push(diagnostic)
+  }
+
+  // v-model prop/emit pairs can use defineModel() since Vue 3.4
+  const pairs = isDefineModelAvailable(doc) ? findModelPairRanges(doc) : []
 
+  for (const { name, event, range } of pairs) {
     const diagnostic = new vscode.Diagnostic(
       range,
-      'Object-style defineProps() used. Convert to type-safe variant.',
-      vscode.DiagnosticSeverity.Information,
+      `'${name}' prop and '${event}' emit can be replaced by defineModel().`,
+      severity,
     )
+    diagnostic.code = { value: 'props.ModelPair', target: vscode.Uri.parse(DOCS.model) }
+
+    foundDiagnostics.push(diagnostic)
+  }
 
-    // Used by the CodeActionProvider to trigger fixes
-    diagnostic.code = 'props.TypeSyntax'
+  // Warn about what the conversion can't keep exactly, and about conflicts blocking it
+  for (const issue of findConversionIssues(doc, options)) {
+    const diagnostic = new vscode.Diagnostic(
+      new vscode.Range(doc.positionAt(issue.start), doc.positionAt(issue.end)),
+      issue.message,
+      // Conflicts block the conversion, they are reported as errors
+      issue.severity === 'error' ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning,
+    )
+    diagnostic.code = issue.severity === 'error' ? 'props.ConversionConflict' : 'props.ConversionWarning'
 
     foundDiagnostics.push(diagnostic)
   }
@@ -64,3 +241,53 @@ export function scanDocument(doc: vscode.TextDocument, diagnostics: vscode.Diagn
   // Update all diagnostics for this document
   diagnostics.set(doc.uri, foundDiagnostics)
 }
+
+/**
+ * Creates the diagnostic of the `props` option of an Options API component that can be typed
+ * or moved to `<script setup>`.
+ * 
+ * @param doc The text document to scan
+ * @param severity The severity of the diagnostic
+ * @param options The conversion options of the document
+ * @returns The diagnostic, empty if there is nothing to convert
+ */
+function findOptionsPropsDiagnostics(
+  doc: vscode.TextDocument,
+  severity: vscode.DiagnosticSeverity,
+  options: ConvertOptions,
+): vscode.Diagnostic[] {
+  let range: { start: number, end: number } | null
+  try {
+    range = doc.languageId === 'vue' ? findSfcOptionsProps(doc.getText(), options) : null
+  } catch {
+    // incomplete code while typing
+    return []
+  }
+
+  if (!range) return []
+
+  const diagnostic = new vscode.Diagnostic(
+    new vscode.Range(doc.positionAt(range.start), doc.positionAt(range.end)),
+    'Options API props without precise types. Type them with defineComponent() and PropType<T>, or move the component to <script setup> with type-based defineProps().',
+    severity,
+  )
+  diagnostic.code = { value: 'props.OptionsApi', target: vscode.Uri.parse(DOCS.options) }
+
+  return [diagnostic]
+}
+
+/**
+ * Runs the conversion without applying it, to find the problems it would run into.
+ * 
+ * @param doc The text document to check
+ * @param options The conversion options of the document
+ * @returns The conversion issues, empty if the document can't be parsed
+ */
+function findConversionIssues(doc: vscode.TextDocument, options: ConvertOptions): ConversionIssue[] {
+  try {
+    return convertSfc(doc.getText(), options)?.issues ?? []
+  } catch {
+    // incomplete code while typing
+    return []
+  }
+}
@@ -0,0 +1,198 @@
+import traverse from '@babel/traverse'
+import * as t from '@babel/types'
+import { formatPropKey, indentAt, sliceNode } from '../core/converter'
+import { formatCode, preserve } from '../core/format'
+import { parseScript } from '../shared'
+import type { NodePath } from '@babel/traverse'
+import type { ConversionIssue, ConvertOptions, EmitDefinition, EmitsConversion } from '../types'
+
+/**
+ * Finds all runtime defineEmits([]) / defineEmits({}) usages in the given script content.
+ * Only the call is returned, the `const emit =` binding is kept as-is.
+ *
+ * @param scriptContent The content of the <script setup> block
+ * @returns An array of CallExpression nodes
+ */
+export function findRuntimeDefineEmits(scriptContent: string): t.CallExpression[] {
+  const ast = parseScript(scriptContent)
+
+  const nodes: t.CallExpression[] = []
+
+  traverse(ast, {
+    CallExpression(path: NodePath<t.CallExpression>) {
+      if (
+        t.isIdentifier(path.node.callee, { name: 'defineEmits' }) &&
+        !path.node.typeParameters &&
+        path.node.arguments.length === 1 &&
+        (t.isArrayExpression(path.node.arguments[0]) || t.isObjectExpression(path.node.arguments[0]))
+      ) {
+        nodes.push(path.node)
+      }
+    },
+  })
+
+  return nodes
+}
+
+/**
+ * Converts every runtime defineEmits in the script to type-safe defineEmits<{}>().
+ *
+ * @param scriptContent The content of the <script setup> block
+ * @param options Options controlling the generated code
+ * @returns The script content with every defineEmits converted
+ */
+export function convertEmits(scriptContent: string, options: ConvertOptions = {}): string {
+  let result = scriptContent
+
+  // Replace from the end so earlier offsets stay valid
+  for (const node of findRuntimeDefineEmits(scriptContent).reverse()) {
+    if (node.start == null || node.end == null) continue
+
+    const conversion = convertDefineEmits(scriptContent.slice(node.start, node.end), options)
+    if (!conversion || conversion.issues.some(issue => issue.severity === 'error')) continue
+
+    result = result.slice(0, node.start) + indentAt(scriptContent, node.start, conversion.code) + result.slice(node.end)
+  }
+
+  return result
+}
+
+/**
+ * Converts a runtime defineEmits call to type-safe defineEmits<{}>(), using the
+ * named tuple form (Vue 3.3+) or the call signature form.
+ *
+ * @param code The defineEmits call
+ * @param options Options controlling the generated code
+ * @returns The conversion result, or `null` if no runtime defineEmits was found
+ */
+export function convertDefineEmits(code: string, options: ConvertOptions = {}): EmitsConversion | null {
+  const node = findRuntimeDefineEmits(code)[0]
+  if (!node) return null
+
+  const issues: ConversionIssue[] = []
+  const emits = extractEmits(code, node.arguments[0] as t.ArrayExpression | t.ObjectExpression, issues)
+
+  // The payload types copied from the source aren't restyled
+  const preserved: string[] = []
+  const params = (emit: EmitDefinition) =>
+    emit.params.map(param => preserve(preserved, param.split('\n').map((line, i) => (i === 0 ? line : `  ${line}`)).join('\n')))
+
+  const members = (options.emitsDeclaration ?? 'tuple') === 'tuple'
+    ? emits.map(emit => `${formatPropKey(emit.name)}: [${params(emit).join(', ')}]`)
+    : emits.map(emit => `(e: '${emit.name.replace(/'/g, '\\\'')}'${params(emit).map(param => `, ${param}`).join('')}): void`)
+
+  return { code: formatCode(`defineEmits<{\n  ${members.join('\n  ')}\n}>()`, options.format, 'expression', preserved), emits, issues }
+}
+
+/**
+ * Extracts the emitted events from the array or object passed to defineEmits.
+ * Payload types are kept as written, from the source slices of their annotations.
+ *
+ * @param source The source the nodes were parsed from
+ * @param arg The array or object expression passed to defineEmits
+ * @param issues Collects the events that can't be converted and the dropped validators
+ * @returns The extracted event definitions
+ */
+export function extractEmits(
+  source: string,
+  arg: t.ArrayExpression | t.ObjectExpression,
+  issues: ConversionIssue[] = [],
+): EmitDefinition[] {
+  const emits: EmitDefinition[] = []
+  const report = (message: string, node: t.Node, severity: ConversionIssue['severity']) => issues.push({
+    message,
+    start: node.start ?? 0,
+    end: node.end ?? 0,
+    severity,
+  })
+
+  // defineEmits(['change', 'update:modelValue']): the payload is unknown
+  if (t.isArrayExpression(arg)) {
+    for (const element of arg.elements) {
+      if (!t.isStringLiteral(element)) {
+        report('Only string literal event names can be converted.', element ?? arg, 'error')
+        continue
+      }
+
+      emits.push({ name: element.value, params: ['...args: any[]'] })
+    }
+
+    return emits
+  }
+
+  for (const prop of arg.properties) {
+    if (t.isSpreadElement(prop) || prop.computed || !(t.isIdentifier(prop.key) || t.isStringLiteral(prop.key))) {
+      report('Spread and computed event names can\'t be converted.', prop, 'error')
+      continue
+    }
+
+    const name = t.isIdentifier(prop.key) ? prop.key.name : prop.key.value
+    const validator = t.isObjectMethod(prop)
+      ? prop
+      : t.isArrowFunctionExpression(prop.value) || t.isFunctionExpression(prop.value) ? prop.value : undefined
+
+    // `close: null` has no validator, so the payload is unknown
+    if (!validator) {
+      if (!t.isObjectProperty(prop) || !t.isNullLiteral(prop.value)) {
+        report(`The validator of '${name}' is not a function, its payload can't be inferred.`, prop, 'warning')
+      }
+
+      emits.push({ name, params: ['...args: any[]'] })
+      continue
+    }
+
+    // Typed emits aren't validated at runtime, warn unless the validator always passes
+    if (!alwaysPasses(validator)) {
+      report(`The validator of '${name}' is dropped, type-based emits are not validated at runtime.`, prop, 'warning')
+    }
+
+    emits.push({ name, params: validator.params.map((param, i) => formatParam(source, param, i)) })
+  }
+
+  return emits
+}
+
+/**
+ * Formats a validator parameter as a named tuple member / call signature parameter.
+ * Unannotated parameters are typed as `any`.
+ *
+ * @param source The source the parameter was parsed from
+ * @param param The validator parameter
+ * @param index The position of the parameter
+ * @returns The formatted parameter
+ */
+function formatParam(source: string, param: t.Node, index: number): string {
+  const annotation = (node: t.Node, fallback: string) => {
+    const type = (node as t.Identifier).typeAnnotation
+    return t.isTSTypeAnnotation(type) ? sliceNode(source, type.typeAnnotation) : fallback
+  }
+
+  if (t.isIdentifier(param)) return `${param.name}${param.optional ? '?' : ''}: ${annotation(param, 'any')}`
+
+  if (t.isRestElement(param)) {
+    const name = t.isIdentifier(param.argument) ? param.argument.name : 'args'
+    return `...${name}: ${annotation(param, annotation(param.argument, 'any[]'))}`
+  }
+
+  if (t.isAssignmentPattern(param)) {
+    const name = t.isIdentifier(param.left) ? param.left.name : `arg${index}`
+    return `${name}?: ${annotation(param.left, 'any')}`
+  }
+
+  // Destructured parameters have no name: ({ id }: { id: number }) => true
+  return `${index ? `arg${index}` : 'payload'}: ${annotation(param, 'any')}`
+}
+
+/**
+ * Checks whether a validator always returns `true`, so dropping it loses nothing.
+ *
+ * @param fn The validator function
+ * @returns `true` if the validator is `() => true` or only returns `true`
+ */
+function alwaysPasses(fn: t.ArrowFunctionExpression | t.FunctionExpression | t.ObjectMethod): boolean {
+  if (t.isBooleanLiteral(fn.body, { value: true })) return true
+  if (!t.isBlockStatement(fn.body) || fn.body.body.length !== 1) return false
+
+  const statement = fn.body.body[0]
+  return t.isReturnStatement(statement) && t.isBooleanLiteral(statement.argument, { value: true })
+}
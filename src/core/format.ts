@@ -0,0 +1,253 @@
+import traverse from '@babel/traverse'
+import * as t from '@babel/types'
+import { applyTextChanges } from '../core/sfc'
+import { parseScript } from '../shared'
+import type { NodePath } from '@babel/traverse'
+import type { FormatOptions, TextChange } from '../types'
+
+/**
+ * The style of the generated code when no format options are given:
+ * two spaces, no semicolons, single quotes and no trailing commas.
+ */
+const DEFAULT_FORMAT: Required<FormatOptions> = {
+  indent: '  ',
+  semicolons: false,
+  quotes: 'single',
+  trailingCommas: false,
+  multilineThreshold: 1,
+}
+
+/**
+ * Statements that end with a semicolon.
+ */
+const TERMINATED_STATEMENTS = [
+  'VariableDeclaration',
+  'ExpressionStatement',
+  'ReturnStatement',
+  'ThrowStatement',
+  'ImportDeclaration',
+  'TSTypeAliasDeclaration',
+  'BreakStatement',
+  'ContinueStatement',
+]
+
+/**
+ * Placeholder of the code copied from the user's source in generated code (`__preserved0__`),
+ * an identifier so the generated code still parses.
+ */
+const PLACEHOLDER = /__preserved(\d+)__/g
+
+/**
+ * Fills in the defaults of the given format options.
+ *
+ * @param format The format options
+ * @returns The complete format options
+ */
+export function resolveFormat(format: FormatOptions = {}): Required<FormatOptions> {
+  return { ...DEFAULT_FORMAT, ...Object.fromEntries(Object.entries(format).filter(([, value]) => value !== undefined)) }
+}
+
+/**
+ * Replaces code copied from the user's source (types, defaults, validators) with a placeholder,
+ * so that `formatCode` leaves it as written.
+ *
+ * @param preserved Collects the copied code, passed to `formatCode`
+ * @param code The copied code, indented at its position in the generated code
+ * @returns The placeholder to generate instead of the code
+ */
+export function preserve(preserved: string[], code: string): string {
+  preserved.push(code)
+  return `__preserved${preserved.length - 1}__`
+}
+
+/**
+ * Restyles generated code: the conversion generates two-space indented code without
+ * semicolons. Type members are separated by line breaks (or `;` with semicolons), string literals
+ * are requoted, trailing commas of multiline lists are added or removed, and the indentation
+ * is converted to the configured unit.
+ *
+ * Code copied from the user's source is kept as written, only its indentation is converted.
+ *
+ * @param code The generated code, statements or a single expression
+ * @param format The format options
+ * @param kind Whether the code is a list of statements, or an expression inserted into a statement
+ * @param preserved The code copied from the user's source, replaced by `preserve()` placeholders in the code
+ * @returns The formatted code, or the code unchanged if it doesn't parse
+ */
+export function formatCode(
+  code: string,
+  format: FormatOptions = {},
+  kind: 'statements' | 'expression' = 'statements',
+  preserved: string[] = [],
+): string {
+  const style = resolveFormat(format)
+  const restore = (code: string) => code.replace(PLACEHOLDER, (_, index: string) => preserved[Number(index)])
+
+  let ast: t.File
+  try {
+    ast = parseScript(code)
+  } catch {
+    return restore(code)
+  }
+
+  const changes: TextChange[] = []
+
+  traverse(ast, {
+    StringLiteral(path: NodePath<t.StringLiteral>) {
+      // JSX attributes conventionally keep double quotes
+      if (path.parentPath?.isJSXAttribute()) return
+
+      const { start, end } = path.node
+      const quote = style.quotes === 'single' ? '\'' : '"'
+      if (start == null || end == null || code[start] === quote) return
+
+      changes.push({ start, end, text: quoteString(path.node.value, quote) })
+    },
+    TSTypeLiteral(path: NodePath<t.TSTypeLiteral>) {
+      changes.push(...separateMembers(code, path.node.members, style.semicolons))
+    },
+    TSInterfaceBody(path: NodePath<t.TSInterfaceBody>) {
+      changes.push(...separateMembers(code, path.node.body, style.semicolons))
+    },
+    ObjectExpression(path: NodePath<t.ObjectExpression>) {
+      changes.push(...trailingComma(code, path.node, path.node.properties, style.trailingCommas))
+    },
+    ObjectPattern(path: NodePath<t.ObjectPattern>) {
+      changes.push(...trailingComma(code, path.node, path.node.properties, style.trailingCommas))
+    },
+    ArrayExpression(path: NodePath<t.ArrayExpression>) {
+      changes.push(...trailingComma(code, path.node, path.node.elements, style.trailingCommas))
+    },
+    Statement(path: NodePath<t.Statement>) {
+      const { node } = path
+      if (!TERMINATED_STATEMENTS.includes(node.type) || node.end == null) return
+
+      // `for (let i = 0; ...)` and the expression inserted into a statement
+      if (path.parentPath?.isFor()) return
+      if (kind === 'expression' && path.parentPath?.isProgram()) return
+
+      const terminated = code[node.end - 1] === ';'
+
+      if (style.semicolons && !terminated) changes.push({ start: node.end, end: node.end, text: ';' })
+
+      // Keep semicolons protecting a following line that starts with `(`, `[` or a template
+      if (!style.semicolons && terminated && !/^\s*[([`]/.test(code.slice(node.end))) {
+        changes.push({ start: node.end - 1, end: node.end, text: '' })
+      }
+    },
+  })
+
+  const formatted = restore(applyTextChanges(code, changes))
+  if (style.indent === DEFAULT_FORMAT.indent) return formatted
+
+  return applyTextChanges(formatted, reindent(formatted, style.indent, findTemplateLiterals(formatted)))
+}
+
+/**
+ * Finds the template literals of code, whose lines are part of the string.
+ *
+ * @param code The code
+ * @returns The ranges of the template literals, empty if the code doesn't parse
+ */
+function findTemplateLiterals(code: string): Array<[number, number]> {
+  const templates: Array<[number, number]> = []
+
+  try {
+    traverse(parseScript(code), {
+      TemplateLiteral(path: NodePath<t.TemplateLiteral>) {
+        templates.push([path.node.start ?? 0, path.node.end ?? 0])
+      },
+    })
+  } catch {
+    // code that doesn't parse is reindented as a whole
+  }
+
+  return templates
+}
+
+/**
+ * Separates the members of a multiline type literal or interface with line breaks,
+ * or with semicolons. Single line type literals keep their separators: `{ a: number, b: string }`.
+ *
+ * @param code The code
+ * @param members The type members
+ * @param semicolons Whether members end with a semicolon
+ * @returns The changes to the member separators
+ */
+function separateMembers(code: string, members: t.TSTypeElement[], semicolons: boolean): TextChange[] {
+  const changes: TextChange[] = []
+
+  for (const member of members) {
+    if (member.end == null || !/^[ \t]*(?:\n|\/\/|$)/.test(code.slice(member.end))) continue
+
+    const separator = /[;,]$/.test(code.slice(0, member.end)) ? member.end - 1 : member.end
+    const text = semicolons ? ';' : ''
+    if (code.slice(separator, member.end) !== text) changes.push({ start: separator, end: member.end, text })
+  }
+
+  return changes
+}
+
+/**
+ * Adds or removes the trailing comma of a multiline list closed on its own line.
+ *
+ * @param code The code
+ * @param list The object, array or object pattern
+ * @param items The items of the list
+ * @param trailingCommas Whether multiline lists end with a comma
+ * @returns The change to the trailing comma, if any
+ */
+function trailingComma(code: string, list: t.Node, items: Array<t.Node | null>, trailingCommas: boolean): TextChange[] {
+  const last = items[items.length - 1]
+  if (!last || last.end == null || list.end == null || t.isRestElement(last)) return []
+
+  const tail = code.slice(last.end, list.end - 1)
+  if (!tail.includes('\n')) return []
+
+  const comma = tail.match(/^\s*,/)
+  if (trailingCommas && !comma) return [{ start: last.end, end: last.end, text: ',' }]
+  if (!trailingCommas && comma) return [{ start: last.end, end: last.end + comma[0].length, text: comma[0].slice(0, -1) }]
+
+  return []
+}
+
+/**
+ * Converts two-space indentation to the given indentation unit.
+ * Lines inside template literals are part of the string and are left alone.
+ *
+ * @param code The code to reindent
+ * @param indent The indentation unit
+ * @param templates The ranges of the template literals of the code
+ * @returns The changes to the leading whitespace of the lines
+ */
+function reindent(code: string, indent: string, templates: Array<[number, number]>): TextChange[] {
+  const changes: TextChange[] = []
+  let offset = 0
+
+  for (const line of code.split('\n')) {
+    const leading = line.match(/^ */)?.[0] ?? ''
+    const inTemplate = templates.some(([start, end]) => offset > start && offset < end)
+
+    // An odd space is kept, it aligns JSDoc lines (` * text`)
+    if (leading && !inTemplate) {
+      const text = indent.repeat(Math.floor(leading.length / 2)) + ' '.repeat(leading.length % 2)
+      changes.push({ start: offset, end: offset + leading.length, text })
+    }
+
+    offset += line.length + 1
+  }
+
+  return changes
+}
+
+/**
+ * Formats a string value as a string literal with the given quotes.
+ *
+ * @param value The string value
+ * @param quote The quote character
+ * @returns The string literal code
+ */
+function quoteString(value: string, quote: string): string {
+  const escaped = JSON.stringify(value).slice(1, -1)
+  return quote === '"' ? `"${escaped}"` : `'${escaped.replace(/\\"/g, '"').replace(/'/g, '\\\'')}'`
+}
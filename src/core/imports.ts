@@ -0,0 +1,331 @@
+import traverse from '@babel/traverse'
+import * as t from '@babel/types'
+import { parseScript } from '../shared'
+import type { NodePath } from '@babel/traverse'
+import type { TextChange } from '../types'
+
+/**
+ * Module extensions without type information: Vue's compiler can't resolve types imported from them.
+ */
+const UNTYPED_MODULE = /\.(?:js|mjs|cjs|jsx)$/
+
+/**
+ * Types every TypeScript environment declares, which need no import.
+ */
+const GLOBAL_TYPES = new Set([
+  'Array', 'ReadonlyArray', 'Record', 'Partial', 'Required', 'Readonly', 'Pick', 'Omit', 'Exclude', 'Extract',
+  'NonNullable', 'ReturnType', 'Parameters', 'InstanceType', 'Awaited', 'Promise', 'Map', 'Set', 'WeakMap',
+  'WeakSet', 'Date', 'RegExp', 'Error', 'Function', 'Object', 'String', 'Number', 'Boolean', 'Symbol', 'BigInt',
+  'HTMLElement', 'Element', 'Event', 'File', 'Blob',
+])
+
+/**
+ * Types exported by `vue`, often auto-imported (Nuxt, unplugin-auto-import): Vue's compiler only resolves them
+ * when they are imported, the import is added.
+ */
+const VUE_TYPES = new Set([
+  'Component', 'ComponentPublicInstance', 'ComputedRef', 'CSSProperties', 'DefineComponent', 'ExtractPropTypes',
+  'MaybeRef', 'MaybeRefOrGetter', 'PropType', 'Ref', 'ShallowRef', 'Slot', 'VNode', 'VNodeChild',
+])
+
+/**
+ * Global DOM types, which need no import either.
+ */
+const DOM_TYPE = /^(?:HTML|SVG)\w*Element$|Event$|^(?:Window|Document|Node|NodeList)$/
+
+/**
+ * An import specifier of the original script and how it is used after the conversion.
+ */
+interface ImportUsage {
+  specifier: t.ImportSpecifier | t.ImportDefaultSpecifier | t.ImportNamespaceSpecifier
+
+  /** The specifier is only used in type positions and can become a type import */
+  typeOnly: boolean
+
+  /** The specifier is not used anymore and is removed */
+  unused: boolean
+}
+
+/**
+ * Updates the imports of a script after its runtime declarations were converted to types:
+ * - value imports that are only used as types now (e.g. `type: User`) become type imports
+ * - the `PropType` import is removed once it's unused
+ *
+ * Only the given names are changed, other imports of the script are left alone.
+ *
+ * @param original The original script content, the changes refer to it
+ * @param converted The converted script content
+ * @param names The identifiers the conversion removed from value positions
+ * @param templateReferences The names read by the template, which are value usages
+ * @returns The changes to the import declarations, with offsets inside the original script
+ */
+export function fixTypeImports(
+  original: string,
+  converted: string,
+  names: Set<string>,
+  templateReferences: Set<string> = new Set(),
+): TextChange[] {
+  const originalAst = parseScript(original)
+  const usage = analyzeUsage(parseScript(converted))
+  for (const name of templateReferences) usage.values.add(name)
+  const changes: TextChange[] = []
+
+  for (const declaration of originalAst.program.body) {
+    if (!t.isImportDeclaration(declaration)) continue
+
+    const isType = (specifier: t.Node) =>
+      declaration.importKind === 'type' || (t.isImportSpecifier(specifier) && specifier.importKind === 'type')
+
+    const specifiers: ImportUsage[] = declaration.specifiers.map(specifier => {
+      const name = specifier.local.name
+      const touched = names.has(name)
+
+      return {
+        specifier,
+        typeOnly: isType(specifier) || (touched && !usage.values.has(name) && usage.types.has(name)),
+        unused: touched && name === 'PropType' && !usage.values.has(name) && !usage.types.has(name),
+      }
+    })
+
+    const changed = specifiers.some(({ specifier, typeOnly, unused }) => unused || (typeOnly && !isType(specifier)))
+    if (!changed) continue
+
+    const kept = specifiers.filter(s => !s.unused)
+
+    // Nothing left: remove the whole declaration with its line break,
+    // and the blank line after it if it was the first statement
+    if (!kept.length) {
+      const start = declaration.start ?? 0
+      let end = declaration.end ?? 0
+      if (original[end] === '\n') end++
+      if (!original.slice(0, start).trim() && original[end] === '\n') end++
+
+      changes.push({ start, end, text: '' })
+      continue
+    }
+
+    changes.push({
+      start: declaration.start ?? 0,
+      end: declaration.source.start ?? 0,
+      text: `import ${formatSpecifiers(original, kept)} from `,
+    })
+  }
+
+  return changes
+}
+
+/**
+ * Finds the types of a converted script that Vue's type-based defineProps can't resolve:
+ * conditional types, `typeof` queries and types imported from untyped JavaScript modules.
+ * Types of `vue` used without import are reported with the name to import, the conversion imports them.
+ *
+ * @param scriptContent The converted script content
+ * @param typeParameters Type parameters of a generic component (`<script setup generic="T">`)
+ * @returns The problems, labeled with the prop name
+ */
+export function findUnresolvableTypes(
+  scriptContent: string,
+  typeParameters: string[] = [],
+): Array<{ prop: string, message: string, missingImport?: string }> {
+  const ast = parseScript(scriptContent)
+  const problems: Array<{ prop: string, message: string, missingImport?: string }> = []
+
+  const importSources = new Map<string, string>()
+  const declared = new Set<string>(typeParameters)
+
+  for (const statement of ast.program.body) {
+    const declaration = t.isExportNamedDeclaration(statement) ? statement.declaration : statement
+
+    if (t.isImportDeclaration(declaration)) {
+      for (const specifier of declaration.specifiers) importSources.set(specifier.local.name, declaration.source.value)
+    } else if (
+      t.isTSInterfaceDeclaration(declaration) ||
+      t.isTSTypeAliasDeclaration(declaration) ||
+      t.isTSEnumDeclaration(declaration) ||
+      t.isClassDeclaration(declaration)
+    ) {
+      if (declaration.id) declared.add(declaration.id.name)
+    }
+  }
+
+  traverse(ast, {
+    CallExpression(path: NodePath<t.CallExpression>) {
+      const type = path.node.typeParameters?.params[0]
+      if (!t.isIdentifier(path.node.callee, { name: 'defineProps' }) || !type) return
+
+      for (const member of resolveMembers(ast, type)) {
+        if (!t.isTSPropertySignature(member) || !member.typeAnnotation) continue
+
+        const prop = t.isIdentifier(member.key) ? member.key.name : t.isStringLiteral(member.key) ? member.key.value : undefined
+        if (prop === undefined) continue
+
+        const report = (message: string) => problems.push({ prop, message })
+
+        // Type parameters declared inside the type: <T>(value: T) => void, { [K in Keys]: V }
+        const local = new Set<string>()
+        t.traverseFast(member.typeAnnotation, node => {
+          if (t.isTSTypeParameter(node)) local.add(typeof node.name === 'string' ? node.name : (node.name as t.Identifier).name)
+        })
+
+        t.traverseFast(member.typeAnnotation, node => {
+          if (t.isTSConditionalType(node)) {
+            report(`The type of '${prop}' is a conditional type, Vue can't infer a runtime type from it: the prop is not type checked at runtime and isn't cast to a boolean.`)
+          } else if (t.isTSTypeQuery(node)) {
+            report(`The type of '${prop}' uses a \`typeof\` query, Vue can't infer a runtime type from it: the prop is not type checked at runtime and isn't cast to a boolean.`)
+          } else if (t.isTSTypeReference(node)) {
+            const name = getRootName(node.typeName)
+            const source = importSources.get(name)
+
+            if (source && UNTYPED_MODULE.test(source)) {
+              report(`'${name}' is imported from the untyped JavaScript module '${source}', Vue's compiler can't resolve it.`)
+            } else if (
+              !source &&
+              !declared.has(name) &&
+              !local.has(name) &&
+              !GLOBAL_TYPES.has(name) &&
+              !DOM_TYPE.test(name) &&
+              !path.scope.hasBinding(name)
+            ) {
+              if (VUE_TYPES.has(name)) {
+                problems.push({
+                  prop,
+                  message: `'${name}' is not imported in the script, \`import type { ${name} } from 'vue'\` is added.`,
+                  missingImport: name,
+                })
+              } else {
+                report(`'${name}' is not imported or declared in the script, the type of '${prop}' won't resolve. Add an \`import type\` for it.`)
+              }
+            }
+          }
+        })
+      }
+    },
+  })
+
+  return problems
+}
+
+/**
+ * Checks whether the script already imports a name.
+ *
+ * @param ast The parsed script
+ * @param name The local name of the import
+ * @returns `true` if the name is imported
+ */
+export function isImported(ast: t.File, name: string): boolean {
+  return ast.program.body.some(statement =>
+    t.isImportDeclaration(statement) &&
+    statement.specifiers.some(s => s.local.name === name),
+  )
+}
+
+/**
+ * Creates the change adding an import declaration after the existing imports.
+ *
+ * @param source The script content
+ * @param ast The parsed script
+ * @param declaration The import declaration, e.g. `import type { PropType } from 'vue'`
+ * @returns The insertion change
+ */
+export function addImport(source: string, ast: t.File, declaration: string): TextChange {
+  const imports = ast.program.body.filter(statement => t.isImportDeclaration(statement))
+  const last = imports[imports.length - 1]
+
+  if (last?.end != null) {
+    return { start: last.end, end: last.end, text: `\n${declaration}` }
+  }
+
+  // No imports: insert at the start of the script, after its leading line break
+  const start = source.match(/^\s*\n/)?.[0].length ?? 0
+  return { start, end: start, text: `${declaration}\n\n` }
+}
+
+/**
+ * Collects the names used as values and as types in a script.
+ *
+ * @param ast The parsed script
+ * @returns The names used in value positions and in type positions
+ */
+function analyzeUsage(ast: t.File): { values: Set<string>, types: Set<string> } {
+  const values = new Set<string>()
+  const types = new Set<string>()
+
+  traverse(ast, {
+    Program(path: NodePath<t.Program>) {
+      // Type references are not part of Babel's scope references
+      for (const [name, binding] of Object.entries(path.scope.getAllBindings())) {
+        if (binding.referencePaths.length) values.add(name)
+      }
+    },
+    TSTypeReference(path: NodePath<t.TSTypeReference>) {
+      types.add(getRootName(path.node.typeName))
+    },
+    TSTypeQuery(path: NodePath<t.TSTypeQuery>) {
+      if (!t.isTSImportType(path.node.exprName)) types.add(getRootName(path.node.exprName))
+    },
+  })
+
+  return { values, types }
+}
+
+/**
+ * Formats the specifiers of an import declaration, using `import type` when all of them are types.
+ *
+ * @param source The original script content
+ * @param usages The kept specifiers
+ * @returns The specifiers part of the declaration (between `import` and `from`)
+ */
+function formatSpecifiers(source: string, usages: ImportUsage[]): string {
+  const slice = (node: t.Node) => source.slice(node.start ?? 0, node.end ?? 0)
+  const named = usages.filter(u => t.isImportSpecifier(u.specifier))
+  const others = usages.filter(u => !t.isImportSpecifier(u.specifier))
+
+  // `import type` can't mix a default import with named imports
+  const allTypes = usages.every(u => u.typeOnly) && (others.length === 0 || named.length === 0)
+
+  const namedText = named.map(({ specifier, typeOnly }) => {
+    const text = slice(specifier).replace(/^type\s+/, '')
+    return typeOnly && !allTypes ? `type ${text}` : text
+  })
+
+  const parts = others.map(u => slice(u.specifier))
+  if (namedText.length) parts.push(`{ ${namedText.join(', ')} }`)
+
+  return `${allTypes ? 'type ' : ''}${parts.join(', ')}`
+}
+
+/**
+ * Resolves the members of a props type: a type literal, or a local interface / type alias.
+ *
+ * @param ast The parsed script
+ * @param type The type argument of defineProps<T>()
+ * @returns The type members, empty if the type can't be resolved locally
+ */
+function resolveMembers(ast: t.File, type: t.TSType): t.TSTypeElement[] {
+  if (t.isTSTypeLiteral(type)) return type.members
+  if (!t.isTSTypeReference(type) || !t.isIdentifier(type.typeName)) return []
+
+  const name = type.typeName.name
+
+  for (const statement of ast.program.body) {
+    const declaration = t.isExportNamedDeclaration(statement) ? statement.declaration : statement
+
+    if (t.isTSInterfaceDeclaration(declaration) && declaration.id.name === name) return declaration.body.body
+    if (t.isTSTypeAliasDeclaration(declaration) && declaration.id.name === name) return resolveMembers(ast, declaration.typeAnnotation)
+  }
+
+  return []
+}
+
+/**
+ * Gets the leftmost identifier of a (qualified) type name: `Models.User` → `Models`.
+ *
+ * @param name The type name
+ * @returns The root identifier name
+ */
+function getRootName(name: t.TSEntityName): string {
+  if (t.isIdentifier(name)) return name.name
+  if (t.isTSQualifiedName(name)) return getRootName(name.left)
+  return 'this'
+}
+
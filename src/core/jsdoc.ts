@@ -0,0 +1,90 @@
+import * as t from '@babel/types'
+import { extractProps, indentAt } from '../core/converter'
+import { camelize } from '../shared'
+import type { ConvertOptions, PropDefinition, PropsFix } from '../types'
+
+/**
+ * Documents an object-style defineProps declaration of a JavaScript `<script setup>` block
+ * with a JSDoc `@typedef` of its props, inserted above the declaration.
+ * The runtime declaration is kept, JavaScript components need it for their props.
+ *
+ * @param scriptContent The content of the <script setup> block
+ * @param node The defineProps declaration, as returned by `findObjectDefineProps`
+ * @param options Options controlling the generated code
+ * @returns The insertion with offsets inside the script, or `null` if the declaration could not be documented
+ */
+export function documentDefineProps(
+  scriptContent: string,
+  node: t.VariableDeclaration | t.CallExpression,
+  options: ConvertOptions = {},
+): PropsFix | null {
+  const call = t.isCallExpression(node) ? node : node.declarations[0].init
+  const arg = t.isCallExpression(call) ? call.arguments[0] : undefined
+  if (!t.isObjectExpression(arg) || node.start == null) return null
+
+  // The runtime declaration is unchanged, so the conversion warnings don't apply
+  const typedef = buildPropsTypedef(extractProps(scriptContent, arg), `${options.componentName ?? ''}Props`)
+
+  const lineStart = scriptContent.lastIndexOf('\n', node.start - 1) + 1
+  const indent = scriptContent.slice(lineStart, node.start).match(/^\s*/)?.[0] ?? ''
+  const text = indent + indentAt(scriptContent, node.start, typedef) + '\n'
+
+  return { changes: [{ start: lineStart, end: lineStart, text }], issues: [] }
+}
+
+/**
+ * Checks whether a defineProps declaration is already documented with a JSDoc `@typedef`.
+ *
+ * @param scriptContent The content of the <script setup> block
+ * @param node The defineProps declaration
+ * @returns `true` if the comment right above the declaration contains a `@typedef`
+ */
+export function hasPropsTypedef(scriptContent: string, node: t.Node): boolean {
+  const lineStart = scriptContent.lastIndexOf('\n', (node.start ?? 0) - 1) + 1
+  const before = scriptContent.slice(0, lineStart).trimEnd()
+  if (!before.endsWith('*/')) return false
+
+  return before.slice(before.lastIndexOf('/**')).includes('@typedef')
+}
+
+/**
+ * Builds the JSDoc `@typedef` of the given props, with a `@property` tag per prop.
+ * Optional props are bracketed with their default value: `@property {number} [count=0]`.
+ *
+ * @param props The extracted prop definitions
+ * @param typeName Name of the typedef
+ * @returns The JSDoc comment
+ */
+function buildPropsTypedef(props: PropDefinition[], typeName: string): string {
+  const lines = props.map(prop => {
+    // JSDoc types are single line, and Vue normalizes kebab-case prop names
+    // Inferred object types have a member per line, without separators
+    const type = prop.inferred
+      ? prop.type.replace(/\{\n\s*/g, '{ ').replace(/\n\s*\}/g, ' }').replace(/\n\s*/g, ', ')
+      : prop.type.replace(/\s*\n\s*/g, ' ')
+    // Factories (`() => []`) don't describe the value
+    const defaultValue = prop.defaultValue && !/=>|^function\b|\n/.test(prop.defaultValue) ? `=${prop.defaultValue}` : ''
+    const name = prop.required ? camelize(prop.name) : `[${camelize(prop.name)}${defaultValue}]`
+    const comment = prop.comment ?? prop.trailingComment
+    const description = comment ? formatDescription(comment) : ''
+
+    return ` * @property {${type}} ${name}${description ? ` ${description}` : ''}`
+  })
+
+  return ['/**', ` * @typedef {object} ${typeName}`, ...lines, ' */'].join('\n')
+}
+
+/**
+ * Turns the comment of a prop into a single line description.
+ *
+ * @param comment The comment, as extracted by `extractProps` (`// text` or `/** text *\/`)
+ * @returns The description text
+ */
+function formatDescription(comment: string): string {
+  return comment
+    .replace(/^\/\*+|\*+\/$/g, '')
+    .split('\n')
+    .map(line => line.replace(/^\s*(?:\/\/|\*)?\s*/, '').trim())
+    .filter(line => line && !line.startsWith('@'))
+    .join(' ')
+}
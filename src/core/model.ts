@@ -0,0 +1,511 @@
+import traverse from '@babel/traverse'
+import * as t from '@babel/types'
+import { extractProps, normalizeFactoryDefault } from '../core/converter'
+import { collectTemplateExpressions, parseTemplateExpression } from '../core/usages'
+import { camelize, parseScript } from '../shared'
+import type { NodePath } from '@babel/traverse'
+import type { RootNode } from '@vue/compiler-core'
+import type { ConversionIssue, ModelPair, PropsFix, TextChange } from '../types'
+
+/**
+ * The runtime defineProps / defineEmits calls of a script.
+ */
+interface ModelDeclarations {
+  props?: { call: NodePath<t.CallExpression>, object: t.ObjectExpression }
+  emits?: { call: NodePath<t.CallExpression>, list: t.ArrayExpression | t.ObjectExpression }
+}
+
+/**
+ * Finds the props declared with a matching `update:xxx` emit, which together
+ * implement `v-model` and can be replaced by `defineModel()`.
+ * Only object-style defineProps and runtime defineEmits are analyzed.
+ *
+ * @param scriptContent The content of the <script setup> block
+ * @returns The prop/emit pairs, offsets point to the prop inside the script content
+ */
+export function findModelPairs(scriptContent: string): ModelPair[] {
+  const { props, emits } = findDeclarations(parseScript(scriptContent))
+  if (!props || !emits) return []
+
+  const pairs: ModelPair[] = []
+
+  for (const prop of props.object.properties) {
+    const name = t.isObjectProperty(prop) ? getKeyName(prop) : undefined
+    if (name === undefined) continue
+
+    const event = findEvent(emits.list, name)
+    if (!event) continue
+
+    pairs.push({ name, event: event.name, start: prop.start ?? 0, end: prop.end ?? 0 })
+  }
+
+  return pairs
+}
+
+/**
+ * Replaces a prop/emit `v-model` pair with `const model = defineModel<T>()`:
+ * - the prop and the `update:xxx` emit are removed (with their declarations once empty)
+ * - `props.xxx` reads become `model.value`, `emit('update:xxx', v)` becomes `model.value = v`
+ * - a computed getter/setter wrapping the pair is replaced by the model itself
+ * - template usages (`xxx`, `props.xxx`, `$emit('update:xxx', v)`) are updated
+ *
+ * @param scriptContent The content of the <script setup> block
+ * @param scriptOffset Offset of the script content inside the SFC source
+ * @param name Name of the model prop
+ * @param template The template AST, if the SFC has a template
+ * @returns The changes and conflicts, or `null` if there is no such pair
+ */
+export function convertModel(
+  scriptContent: string,
+  scriptOffset: number,
+  name: string,
+  template?: RootNode,
+): PropsFix | null {
+  const { props, emits } = findDeclarations(parseScript(scriptContent))
+  if (!props || !emits) return null
+
+  const prop = props.object.properties.find((p): p is t.ObjectProperty => t.isObjectProperty(p) && getKeyName(p) === name)
+  const event = findEvent(emits.list, name)
+  if (!prop || !event) return null
+
+  const changes: TextChange[] = []
+  const issues: ConversionIssue[] = []
+  const replace = (start: number, end: number, text: string) => changes.push({
+    start: scriptOffset + start,
+    end: scriptOffset + end,
+    text,
+  })
+  const report = (message: string, node: t.Node, severity: ConversionIssue['severity'] = 'error') => issues.push({
+    message,
+    start: scriptOffset + (node.start ?? 0),
+    end: scriptOffset + (node.end ?? 0),
+    severity,
+  })
+
+  const propsName = getBindingName(props.call)
+  const emitName = getBindingName(emits.call)
+  const programScope = props.call.scope.getProgramParent()
+
+  // An existing `computed({ get, set })` wrapping the pair becomes the model
+  const computed = findModelComputed(programScope.path.node as t.Program, propsName, emitName, name)
+  const modelName = computed?.name ?? (name === 'modelValue' ? 'model' : camelize(name))
+
+  if (!computed && programScope.hasBinding(modelName)) {
+    report(`'${modelName}' is already declared, the model can't be declared with this name. Rename the variable before converting.`, prop)
+  }
+
+  const inComputed = (node: t.Node) =>
+    !!computed && (node.start ?? 0) >= (computed.statement.start ?? 0) && (node.end ?? 0) <= (computed.statement.end ?? 0)
+
+  // props.modelValue → model.value
+  let remainingProps = 0
+  const propsBinding = propsName ? props.call.scope.getBinding(propsName) : undefined
+
+  for (const reference of propsBinding?.referencePaths ?? []) {
+    const parent = reference.parent
+    const key = (t.isMemberExpression(parent) || t.isOptionalMemberExpression(parent)) && parent.object === reference.node
+      ? getMemberKey(parent)
+      : undefined
+
+    if (key === undefined) {
+      report(`'${propsName}' is used as a whole, '${name}' can't be moved out of the props.`, reference.node)
+    } else if (!isModelProp(key, name)) {
+      remainingProps++
+    } else if (!inComputed(parent)) {
+      replace(parent.start ?? 0, parent.end ?? 0, `${modelName}.value`)
+    }
+  }
+
+  // emit('update:modelValue', v) → model.value = v
+  let remainingEmits = 0
+  const emitBinding = emitName ? emits.call.scope.getBinding(emitName) : undefined
+
+  for (const reference of emitBinding?.referencePaths ?? []) {
+    const call = reference.parentPath
+    const eventArg = call?.isCallExpression() && call.node.callee === reference.node ? call.node.arguments[0] : undefined
+
+    if (!call || !t.isStringLiteral(eventArg) || !isModelEvent(eventArg.value, name)) {
+      if (call?.isCallExpression() && eventArg && !t.isStringLiteral(eventArg)) {
+        report('The event name is dynamic, this emit is not rewritten to the model.', call.node, 'warning')
+      }
+      remainingEmits++
+      continue
+    }
+
+    if (inComputed(call.node)) continue
+
+    changes.push(...replaceEmit(call.node as t.CallExpression, `${modelName}.value`, isStatementPosition(call), scriptOffset))
+  }
+
+  // Remove the prop and the emit, and their declarations once nothing else uses them
+  const removeProps = props.object.properties.length === 1 && !remainingProps
+  const removeEmits = event.list.length === 1 && !remainingEmits
+  const propsStatement = getStatement(props.call)
+
+  if (removeProps) {
+    // The model is declared in place of the props declaration
+    if (!computed) replace(propsStatement.start ?? 0, propsStatement.end ?? 0, declareModel(scriptContent, prop, name, modelName))
+    else replace(...statementRange(scriptContent, propsStatement), '')
+  } else {
+    replace(...listItemRange(props.object.properties, prop), '')
+    if (!computed) replace(propsStatement.end ?? 0, propsStatement.end ?? 0, `\n${declareModel(scriptContent, prop, name, modelName)}`)
+  }
+
+  if (removeEmits) {
+    replace(...statementRange(scriptContent, getStatement(emits.call)), '')
+  } else {
+    replace(...listItemRange(event.list, event.node), '')
+  }
+
+  if (computed) replace(computed.statement.start ?? 0, computed.statement.end ?? 0, declareModel(scriptContent, prop, name, modelName))
+
+  if (template) {
+    changes.push(...rewriteTemplateModel(template, propsName, modelName, name))
+  }
+
+  if (issues.some(issue => issue.severity === 'error')) return { changes: [], issues }
+
+  return { changes, issues }
+}
+
+/**
+ * Generates the defineModel() declaration with the type, default and required flag of the prop.
+ *
+ * @param scriptContent The content of the <script setup> block
+ * @param prop The model prop in the defineProps object
+ * @param name Name of the model prop
+ * @param modelName Name of the model variable
+ * @returns The declaration code
+ */
+function declareModel(scriptContent: string, prop: t.ObjectProperty, name: string, modelName: string): string {
+  const definition = extractProps(scriptContent, t.objectExpression([prop]))[0]
+
+  const options: string[] = []
+  if (definition.required) options.push('required: true')
+  if (definition.defaultValue) options.push(`default: ${normalizeFactoryDefault(definition.defaultValue)}`)
+
+  const args: string[] = []
+  if (name !== 'modelValue') args.push(`'${name}'`)
+  if (options.length) args.push(`{ ${options.join(', ')} }`)
+
+  const typeArgument = definition.type === 'any' ? '' : `<${definition.type}>`
+  return `const ${modelName} = defineModel${typeArgument}(${args.join(', ')})`
+}
+
+/**
+ * Rewrites the template usages of a model prop: `xxx` and `props.xxx` become
+ * the model ref (unwrapped by the template), `$emit('update:xxx', v)` assigns it.
+ *
+ * @param template The template AST
+ * @param propsName Name of the props object variable, if any
+ * @param modelName Name of the model variable
+ * @param name Name of the model prop
+ * @returns The changes, with offsets inside the SFC source
+ */
+function rewriteTemplateModel(
+  template: RootNode,
+  propsName: string | undefined,
+  modelName: string,
+  name: string,
+): TextChange[] {
+  const changes: TextChange[] = []
+
+  for (const { expression, aliases } of collectTemplateExpressions(template.children)) {
+    if (expression.isStatic) continue
+
+    const parsed = parseTemplateExpression(expression.content)
+    if (!parsed) continue
+
+    const offset = expression.loc.start.offset - parsed.shift
+    const replace = (node: t.Node, text: string) => changes.push({
+      start: offset + (node.start ?? 0),
+      end: offset + (node.end ?? 0),
+      text,
+    })
+
+    traverse(parsed.ast, {
+      Identifier(path: NodePath<t.Identifier>) {
+        const id = path.node.name
+        if (!path.isReferencedIdentifier() || aliases.has(id) || path.scope.hasBinding(id)) return
+
+        const parent = path.parent
+
+        // props.modelValue / $props.modelValue
+        if (id === propsName || id === '$props') {
+          if (t.isMemberExpression(parent) && parent.object === path.node) {
+            const key = getMemberKey(parent)
+            if (key !== undefined && isModelProp(key, name)) replace(parent, modelName)
+          }
+          return
+        }
+
+        if (!isModelProp(id, name)) return
+
+        // Shorthand properties need an explicit key: { modelValue } → { modelValue: model }
+        const shorthand = t.isObjectProperty(parent) && parent.shorthand && parent.value === path.node
+        replace(path.node, shorthand ? `${id}: ${modelName}` : modelName)
+      },
+
+      CallExpression(path: NodePath<t.CallExpression>) {
+        const [event] = path.node.arguments
+        if (!t.isIdentifier(path.node.callee, { name: '$emit' }) || !t.isStringLiteral(event) || !isModelEvent(event.value, name)) return
+
+        changes.push(...replaceEmit(path.node, modelName, isStatementPosition(path), offset))
+      },
+    })
+  }
+
+  return changes
+}
+
+/**
+ * Replaces an `emit('update:xxx', value)` call with an assignment to the model.
+ * Only the call around the value is replaced, so changes inside the value still apply.
+ *
+ * @param call The emit call
+ * @param target The assigned model expression (`model.value` in the script, `model` in the template)
+ * @param statement Whether the call is used as a statement, otherwise the assignment is parenthesized
+ * @param offset Offset of the parsed code inside the SFC source
+ * @returns The changes
+ */
+function replaceEmit(call: t.CallExpression, target: string, statement: boolean, offset: number): TextChange[] {
+  const start = offset + (call.start ?? 0)
+  const end = offset + (call.end ?? 0)
+  const value = call.arguments[1]
+  const [open, close] = statement ? ['', ''] : ['(', ')']
+
+  if (!value) return [{ start, end, text: `${open}${target} = undefined${close}` }]
+
+  return [
+    { start, end: offset + (value.start ?? 0), text: `${open}${target} = ` },
+    { start: offset + (value.end ?? 0), end, text: close },
+  ]
+}
+
+/**
+ * Finds the first object-style defineProps and runtime defineEmits calls.
+ *
+ * @param ast The parsed script
+ * @returns The found calls
+ */
+function findDeclarations(ast: t.File): ModelDeclarations {
+  const declarations: ModelDeclarations = {}
+
+  traverse(ast, {
+    CallExpression(path: NodePath<t.CallExpression>) {
+      const [arg] = path.node.arguments
+      if (path.node.typeParameters || path.node.arguments.length !== 1) return
+
+      if (!declarations.props && t.isIdentifier(path.node.callee, { name: 'defineProps' }) && t.isObjectExpression(arg)) {
+        declarations.props = { call: path, object: arg }
+      }
+
+      if (
+        !declarations.emits &&
+        t.isIdentifier(path.node.callee, { name: 'defineEmits' }) &&
+        (t.isArrayExpression(arg) || t.isObjectExpression(arg))
+      ) {
+        declarations.emits = { call: path, list: arg }
+      }
+    },
+  })
+
+  return declarations
+}
+
+/**
+ * Finds the `update:xxx` event of a prop in the defineEmits list.
+ *
+ * @param list The array or object passed to defineEmits
+ * @param name Name of the prop
+ * @returns The event name, its node and the list it is declared in
+ */
+function findEvent(
+  list: t.ArrayExpression | t.ObjectExpression,
+  name: string,
+): { name: string, node: t.Node, list: t.Node[] } | undefined {
+  const items = (t.isArrayExpression(list) ? list.elements : list.properties).filter(item => !!item)
+
+  for (const item of items) {
+    const event = t.isStringLiteral(item)
+      ? item.value
+      : t.isObjectProperty(item) || t.isObjectMethod(item) ? getKeyName(item) : undefined
+
+    if (event !== undefined && isModelEvent(event, name)) {
+      return { name: event, node: item, list: items }
+    }
+  }
+
+  return undefined
+}
+
+/**
+ * Finds a top-level `const value = computed({ get, set })` whose getter reads
+ * the model prop and whose setter emits its update event.
+ *
+ * @param program The script program
+ * @param propsName Name of the props object variable
+ * @param emitName Name of the emit function variable
+ * @param name Name of the model prop
+ * @returns The computed declaration and its variable name
+ */
+function findModelComputed(
+  program: t.Program,
+  propsName: string | undefined,
+  emitName: string | undefined,
+  name: string,
+): { statement: t.VariableDeclaration, name: string } | undefined {
+  if (!propsName || !emitName) return undefined
+
+  for (const statement of program.body) {
+    if (!t.isVariableDeclaration(statement) || statement.declarations.length !== 1) continue
+
+    const { id, init } = statement.declarations[0]
+    if (
+      !t.isIdentifier(id) ||
+      !t.isCallExpression(init) ||
+      !t.isIdentifier(init.callee, { name: 'computed' }) ||
+      !t.isObjectExpression(init.arguments[0])
+    ) {
+      continue
+    }
+
+    const accessors = init.arguments[0].properties
+    const getter = accessors.find(p => !t.isSpreadElement(p) && getKeyName(p) === 'get')
+    const setter = accessors.find(p => !t.isSpreadElement(p) && getKeyName(p) === 'set')
+    if (!getter || !setter) continue
+
+    let reads = false
+    let emits = false
+
+    t.traverseFast(getter, node => {
+      if (t.isMemberExpression(node) && t.isIdentifier(node.object, { name: propsName })) {
+        const key = getMemberKey(node)
+        reads ||= key !== undefined && isModelProp(key, name)
+      }
+    })
+
+    t.traverseFast(setter, node => {
+      if (t.isCallExpression(node) && t.isIdentifier(node.callee, { name: emitName })) {
+        const [event] = node.arguments
+        emits ||= t.isStringLiteral(event) && isModelEvent(event.value, name)
+      }
+    })
+
+    if (reads && emits) return { statement, name: id.name }
+  }
+
+  return undefined
+}
+
+/**
+ * Gets the name of the variable a defineProps / defineEmits call is assigned to.
+ *
+ * @param call The call
+ * @returns The variable name, or `undefined` for bare calls and destructuring
+ */
+function getBindingName(call: NodePath<t.CallExpression>): string | undefined {
+  const parent = call.parent
+  return t.isVariableDeclarator(parent) && t.isIdentifier(parent.id) ? parent.id.name : undefined
+}
+
+/**
+ * Gets the statement containing a defineProps / defineEmits call.
+ *
+ * @param call The call
+ * @returns The variable declaration or expression statement
+ */
+function getStatement(call: NodePath<t.CallExpression>): t.Node {
+  return call.getStatementParent()?.node ?? call.node
+}
+
+/**
+ * Checks whether an expression is evaluated as a statement (or arrow function body),
+ * where an assignment doesn't need parentheses.
+ *
+ * @param path The expression
+ * @returns `true` if the result of the expression is not used
+ */
+function isStatementPosition(path: NodePath): boolean {
+  const parent = path.parent
+  return t.isExpressionStatement(parent) || (t.isArrowFunctionExpression(parent) && parent.body === path.node)
+}
+
+/**
+ * Checks whether a prop key refers to the model prop (`model-value` and `modelValue` are the same prop).
+ *
+ * @param key The prop key
+ * @param name Name of the model prop
+ * @returns `true` if the key is the model prop
+ */
+function isModelProp(key: string, name: string): boolean {
+  return key === name || camelize(key) === camelize(name)
+}
+
+/**
+ * Checks whether an event name is the update event of the model prop.
+ *
+ * @param event The event name
+ * @param name Name of the model prop
+ * @returns `true` if the event is `update:<name>`
+ */
+function isModelEvent(event: string, name: string): boolean {
+  return event.startsWith('update:') && isModelProp(event.slice('update:'.length), name)
+}
+
+/**
+ * Gets the static key of a member expression (`a.b` or `a['b']`).
+ *
+ * @param node The member expression
+ * @returns The key, or `undefined` for dynamic access
+ */
+function getMemberKey(node: t.MemberExpression | t.OptionalMemberExpression): string | undefined {
+  if (!node.computed && t.isIdentifier(node.property)) return node.property.name
+  if (node.computed && t.isStringLiteral(node.property)) return node.property.value
+  return undefined
+}
+
+/**
+ * Gets the static key name of an object member.
+ *
+ * @param node The object property or method
+ * @returns The key name, or `undefined` for computed keys
+ */
+function getKeyName(node: t.ObjectProperty | t.ObjectMethod): string | undefined {
+  if (node.computed) return undefined
+  if (t.isIdentifier(node.key)) return node.key.name
+  if (t.isStringLiteral(node.key)) return node.key.value
+  return undefined
+}
+
+/**
+ * Gets the range removing a statement, including its line break.
+ *
+ * @param source The script content
+ * @param statement The statement to remove
+ * @returns The `[start, end)` range
+ */
+export function statementRange(source: string, statement: t.Node): [number, number] {
+  const end = statement.end ?? 0
+  return [statement.start ?? 0, source[end] === '\n' ? end + 1 : end]
+}
+
+/**
+ * Gets the range removing an item of an array or object literal, with its comma and comments.
+ *
+ * @param items The items of the list
+ * @param item The item to remove
+ * @returns The `[start, end)` range
+ */
+export function listItemRange(items: t.Node[], item: t.Node): [number, number] {
+  const index = items.indexOf(item)
+  const startOf = (node: t.Node) => node.leadingComments?.[0]?.start ?? node.start ?? 0
+
+  // Remove up to the next item, so the separator goes with it
+  if (index < items.length - 1) return [startOf(item), startOf(items[index + 1])]
+
+  // The last item takes the separator after the previous one
+  if (index > 0) return [items[index - 1].end ?? 0, item.end ?? 0]
+
+  return [startOf(item), item.end ?? 0]
+}
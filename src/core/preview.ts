@@ -0,0 +1,143 @@
+import * as vscode from 'vscode'
+import { addTextChanges } from '../core/actions'
+import { applyTextChanges } from '../core/sfc'
+import type { TextChange } from '../types'
+
+/**
+ * URI scheme of the virtual documents showing a converted file.
+ */
+export const PREVIEW_SCHEME = 'vue-prop-konverter-preview'
+
+/**
+ * A pending conversion shown in the diff editor.
+ */
+interface Preview {
+  /** The original document */
+  uri: vscode.Uri
+
+  /** Version of the original document the changes were computed for */
+  version: number
+
+  /** The changes of the conversion, with offsets inside the original document */
+  changes: TextChange[]
+
+  /** The converted content */
+  text: string
+}
+
+/**
+ * Pending previews, by the URI of their virtual document.
+ */
+const previews = new Map<string, Preview>()
+
+/**
+ * Emits the changes of the virtual documents when a file is previewed again.
+ */
+const onDidChange = new vscode.EventEmitter<vscode.Uri>()
+
+/**
+ * Provides the content of the converted side of the diff editor.
+ */
+export const previewContentProvider: vscode.TextDocumentContentProvider = {
+  onDidChange: onDidChange.event,
+
+  /**
+   * Provide the converted content of a previewed file.
+   *
+   * @param uri The URI of the virtual document
+   * @returns The converted content, empty if the preview was discarded
+   */
+  provideTextDocumentContent(uri: vscode.Uri): string {
+    return previews.get(uri.toString())?.text ?? ''
+  },
+}
+
+/**
+ * Handler for the `vue-prop-konverter.previewConversion` command, run by the "Preview conversion" code action.
+ * Opens the diff editor with the original file and the converted file, the conversion
+ * is applied or discarded with the buttons of the editor title.
+ *
+ * @param uri The URI of the converted document
+ * @param changes The changes of the conversion
+ */
+export async function previewConversionCommand(uri: vscode.Uri, changes: TextChange[]): Promise<void> {
+  const document = await vscode.workspace.openTextDocument(uri)
+
+  // Keep the path, so the virtual document gets the language of the file
+  const previewUri = vscode.Uri.from({ scheme: PREVIEW_SCHEME, path: uri.path, query: uri.toString() })
+
+  previews.set(previewUri.toString(), {
+    uri,
+    version: document.version,
+    changes,
+    text: applyTextChanges(document.getText(), changes),
+  })
+  onDidChange.fire(previewUri)
+
+  const title = `${vscode.workspace.asRelativePath(uri)} (Conversion Preview)`
+  await vscode.commands.executeCommand('vscode.diff', uri, previewUri, title, { preview: true })
+}
+
+/**
+ * Handler for the `vue-prop-konverter.applyPreview` command.
+ * Applies the previewed conversion, unless the file was edited since, and closes the diff editor.
+ *
+ * @param previewUri The URI of the virtual document, defaults to the active editor
+ */
+export async function applyPreviewCommand(previewUri?: vscode.Uri): Promise<void> {
+  const uri = previewUri ?? vscode.window.activeTextEditor?.document.uri
+  const preview = uri && previews.get(uri.toString())
+  if (!uri || !preview) return
+
+  const document = await vscode.workspace.openTextDocument(preview.uri)
+
+  if (document.version !== preview.version) {
+    vscode.window.showWarningMessage('Vue Prop Konverter: The file changed since the preview, preview the conversion again.')
+    return
+  }
+
+  const edit = new vscode.WorkspaceEdit()
+  addTextChanges(edit, document, preview.changes)
+
+  if (!await vscode.workspace.applyEdit(edit)) {
+    vscode.window.showErrorMessage('Vue Prop Konverter: Failed to apply the conversion.')
+    return
+  }
+
+  await closePreview(uri)
+}
+
+/**
+ * Handler for the `vue-prop-konverter.discardPreview` command.
+ * Closes the diff editor, leaving the file unchanged.
+ *
+ * @param previewUri The URI of the virtual document, defaults to the active editor
+ */
+export async function discardPreviewCommand(previewUri?: vscode.Uri): Promise<void> {
+  const uri = previewUri ?? vscode.window.activeTextEditor?.document.uri
+  if (uri?.scheme === PREVIEW_SCHEME) await closePreview(uri)
+}
+
+/**
+ * Forgets a preview once its virtual document is closed.
+ *
+ * @param document The closed document
+ */
+export function disposePreview(document: vscode.TextDocument): void {
+  if (document.uri.scheme === PREVIEW_SCHEME) previews.delete(document.uri.toString())
+}
+
+/**
+ * Closes the diff editors of a preview and forgets it.
+ *
+ * @param previewUri The URI of the virtual document
+ */
+async function closePreview(previewUri: vscode.Uri): Promise<void> {
+  previews.delete(previewUri.toString())
+
+  const tabs = vscode.window.tabGroups.all
+    .flatMap(group => group.tabs)
+    .filter(tab => tab.input instanceof vscode.TabInputTextDiff && tab.input.modified.toString() === previewUri.toString())
+
+  await vscode.window.tabGroups.close(tabs)
+}
@@ -0,0 +1,255 @@
+import { posix } from 'node:path'
+import { parse } from '@vue/compiler-sfc'
+import * as t from '@babel/types'
+import { extractProps, findObjectDefineProps, isLooseType } from '../core/converter'
+import { findRuntimeDefineEmits } from '../core/emits'
+import { resolveScriptBlock } from '../core/sfc'
+import { collectTemplateExpressions } from '../core/usages'
+import { parseScript } from '../shared'
+import type { ComponentReport, ConvertOptions, MigrationReport, ReportCounts, ReportTotals } from '../types'
+
+/**
+ * Columns of the Markdown tables, in order.
+ */
+const COLUMNS: Array<[keyof ReportCounts, string]> = [
+  ['objectProps', 'Object props'],
+  ['anyProps', '`any` props'],
+  ['validators', 'Validators'],
+  ['dynamicProps', 'Dynamic props'],
+  ['runtimeEmits', 'Runtime emits'],
+]
+
+/**
+ * Analyzes the props and emits declarations of a component, without converting it.
+ * JavaScript `<script setup>` blocks are analyzed too, whatever the `javascript` option.
+ * Options API components count the props of their `props` option, they are pending until moved to `<script setup>`.
+ *
+ * @param path Path of the file, relative to the scanned root
+ * @param source The full source of the file
+ * @param options Options of the conversion, `fileType` decides how the file is read
+ * @returns The migration status, or `null` for SFCs with neither `<script setup>` nor a `props` option and script files without the macros
+ */
+export function analyzeComponent(path: string, source: string, options: ConvertOptions = {}): ComponentReport | null {
+  const block = resolveScriptBlock(source, { ...options, javascript: 'typescript' })
+  if (!block) return analyzeOptionsComponent(path, source)
+  if (options.fileType && options.fileType !== 'vue' && !/\bdefine(?:Props|Emits)\s*\(/.test(source)) return null
+
+  const report: ComponentReport = {
+    path,
+    lang: block.lang,
+    objectProps: 0,
+    anyProps: 0,
+    validators: 0,
+    dynamicProps: 0,
+    runtimeEmits: findRuntimeDefineEmits(block.content).length,
+    templatePropsUsage: false,
+  }
+  const propsNames = new Set<string>()
+
+  for (const node of findObjectDefineProps(block.content)) {
+    const call = t.isVariableDeclaration(node) ? node.declarations.find(d => isDefineProps(d.init))?.init : node
+    if (!t.isCallExpression(call) || !t.isObjectExpression(call.arguments[0])) continue
+
+    countProps(report, block.content, call.arguments[0])
+
+    const declarator = t.isVariableDeclaration(node) ? node.declarations.find(d => d.init === call) : undefined
+    if (t.isIdentifier(declarator?.id)) propsNames.add(declarator.id.name)
+  }
+
+  report.templatePropsUsage = collectTemplateExpressions(block.template?.children ?? []).some(({ expression, aliases }) =>
+    [...propsNames].some(name => !aliases.has(name) && new RegExp(`(?<![\\w$.])${name.replace(/\$/g, '\\$')}\\s*\\??\\.`).test(expression.content)),
+  )
+
+  return report
+}
+
+/**
+ * Analyzes the `props` option of an Options API component, in an SFC without `<script setup>`.
+ * Props declared as an array of names are untyped.
+ *
+ * @param path Path of the file, relative to the scanned root
+ * @param source The full source of the Vue SFC
+ * @returns The migration status, or `null` if the SFC doesn't export a component with a `props` option
+ */
+function analyzeOptionsComponent(path: string, source: string): ComponentReport | null {
+  const { script, scriptSetup } = parse(source).descriptor
+  if (!script || scriptSetup) return null
+
+  const props = findPropsOption(script.content)
+  if (!t.isObjectExpression(props) && !t.isArrayExpression(props)) return null
+
+  const report: ComponentReport = {
+    path,
+    lang: script.lang ?? 'js',
+    objectProps: 0,
+    anyProps: 0,
+    validators: 0,
+    dynamicProps: 0,
+    runtimeEmits: 0,
+    templatePropsUsage: false,
+  }
+
+  if (t.isArrayExpression(props)) {
+    report.objectProps = report.anyProps = props.elements.length
+  } else {
+    countProps(report, script.content, props)
+  }
+
+  return report
+}
+
+/**
+ * Finds the `props` option of the component a script exports:
+ * `export default defineComponent({ props })` or `export default { props }`.
+ *
+ * @param scriptContent The content of the `<script>` block
+ * @returns The value of the option, or `undefined` if there is none
+ */
+function findPropsOption(scriptContent: string): t.Node | undefined {
+  const declaration = parseScript(scriptContent).program.body.find(statement => t.isExportDefaultDeclaration(statement))
+
+  let options: t.Node | undefined = declaration?.declaration
+  if (t.isCallExpression(options) && t.isIdentifier(options.callee, { name: 'defineComponent' })) options = options.arguments[0]
+  if (!t.isObjectExpression(options)) return undefined
+
+  const props = options.properties.find(property =>
+    t.isObjectProperty(property) && !property.computed && t.isIdentifier(property.key, { name: 'props' }))
+  return t.isObjectProperty(props) ? props.value : undefined
+}
+
+/**
+ * Adds the props of a runtime props object to the counts of a component. Validators that become
+ * a type (literal `includes` checks) aren't counted.
+ *
+ * @param report The component counts to update
+ * @param source The script the object was parsed from
+ * @param object The props object
+ */
+function countProps(report: ReportCounts, source: string, object: t.ObjectExpression): void {
+  const props = extractProps(source, object)
+
+  report.objectProps += props.length
+  report.anyProps += props.filter(prop => isLooseType(prop.type)).length
+  report.validators += props.filter(prop => prop.validator).length
+  report.dynamicProps += object.properties.filter(isDynamicProp).length
+}
+
+/**
+ * Sums up the components of a project, per directory and in total.
+ *
+ * @param components The analyzed components
+ * @returns The report, with the components and directories sorted by path
+ */
+export function createReport(components: ComponentReport[]): MigrationReport {
+  const sorted = [...components].sort((a, b) => a.path.localeCompare(b.path))
+  const directories = new Map<string, ComponentReport[]>()
+
+  for (const component of sorted) {
+    const directory = posix.dirname(component.path.replace(/\\/g, '/'))
+    directories.set(directory, [...directories.get(directory) ?? [], component])
+  }
+
+  return {
+    totals: sumComponents(sorted),
+    directories: [...directories.keys()].sort().map(path => ({ path, ...sumComponents(directories.get(path) ?? []) })),
+    components: sorted,
+  }
+}
+
+/**
+ * Formats a report as a Markdown document, or as JSON for scripts tracking the progress.
+ *
+ * @param report The report
+ * @param format The output format
+ * @returns The formatted report
+ */
+export function formatReport(report: MigrationReport, format: 'markdown' | 'json'): string {
+  if (format === 'json') return `${JSON.stringify(report, null, 2)}\n`
+
+  const { totals } = report
+  const row = (cells: Array<string | number>) => `| ${cells.join(' | ')} |`
+  const counts = (counts: ReportCounts) => COLUMNS.map(([key]) => counts[key])
+
+  const lines = [
+    '# Prop typing report',
+    '',
+    `${totals.components - totals.pending} of ${totals.components} component(s) are fully typed, ` +
+      `${totals.objectProps} object-style prop(s) and ${totals.runtimeEmits} runtime defineEmits() left.`,
+    '',
+    '## Directories',
+    '',
+    row(['Directory', 'Components', 'Pending', ...COLUMNS.map(([, title]) => title), '`props.x` in template']),
+    row(['---', ...Array(COLUMNS.length + 3).fill('---:')]),
+    ...report.directories.map(directory =>
+      row([`\`${directory.path}\``, directory.components, directory.pending, ...counts(directory), directory.templatePropsUsage]),
+    ),
+    row(['**Total**', totals.components, totals.pending, ...counts(totals), totals.templatePropsUsage]),
+    '',
+    '## Components',
+    '',
+    row(['Component', ...COLUMNS.map(([, title]) => title), '`props.x` in template']),
+    row(['---', ...Array(COLUMNS.length).fill('---:'), ':---:']),
+    ...report.components.map(component =>
+      row([`\`${component.path}\``, ...counts(component), component.templatePropsUsage ? 'yes' : '']),
+    ),
+  ]
+
+  return `${lines.join('\n')}\n`
+}
+
+/**
+ * Sums up the counts of components.
+ *
+ * @param components The components
+ * @returns The totals
+ */
+function sumComponents(components: ComponentReport[]): ReportTotals {
+  const totals: ReportTotals = {
+    components: components.length,
+    pending: components.filter(component => component.objectProps || component.runtimeEmits || component.dynamicProps).length,
+    objectProps: 0,
+    anyProps: 0,
+    validators: 0,
+    dynamicProps: 0,
+    runtimeEmits: 0,
+    templatePropsUsage: components.filter(component => component.templatePropsUsage).length,
+  }
+
+  for (const component of components) {
+    for (const [key] of COLUMNS) totals[key] += component[key]
+  }
+
+  return totals
+}
+
+/**
+ * Checks whether a node is a `defineProps()` call.
+ *
+ * @param node The node
+ * @returns `true` for `defineProps(...)`
+ */
+function isDefineProps(node: t.Node | null | undefined): boolean {
+  return t.isCallExpression(node) && t.isIdentifier(node.callee, { name: 'defineProps' })
+}
+
+/**
+ * Checks whether a prop definition can't be analyzed statically: spreads, computed keys,
+ * and definitions held by variables or returned by calls (`size: sizeProp`, `...createProps()`).
+ * Constructors (`title: String`) and option objects are static.
+ *
+ * @param property The property of the defineProps object
+ * @returns `true` if the definition is only known at runtime
+ */
+function isDynamicProp(property: t.ObjectExpression['properties'][number]): boolean {
+  if (!t.isObjectProperty(property)) return true
+  if (property.computed || (!t.isIdentifier(property.key) && !t.isStringLiteral(property.key))) return true
+
+  const { value } = property
+  if (t.isIdentifier(value)) return !/^[A-Z]/.test(value.name)
+
+  return !t.isObjectExpression(value) &&
+    !t.isMemberExpression(value) &&
+    !t.isArrayExpression(value) &&
+    !t.isNullLiteral(value) &&
+    !t.isTSAsExpression(value)
+}
@@ -0,0 +1,456 @@
+import * as babel from '@babel/parser'
+import traverse from '@babel/traverse'
+import * as t from '@babel/types'
+import { formatPropKey } from '../core/converter'
+import { formatCode, preserve } from '../core/format'
+import { addImport, isImported } from '../core/imports'
+import { applyTextChanges } from '../core/sfc'
+import { parseScript } from '../shared'
+import type { NodePath } from '@babel/traverse'
+import type { ConversionIssue, FormatOptions, PropDefinition, PropsFix, SfcConversion, TextChange } from '../types'
+
+/**
+ * A type-based defineProps<T>() declaration found in a script.
+ */
+interface TypeDefineProps {
+  /** The node replaced by the runtime declaration (declaration statement or bare call) */
+  node: t.VariableDeclaration | t.CallExpression
+
+  /** The defineProps<T>() call */
+  call: t.CallExpression
+
+  /** The declarator, if the call is assigned or destructured */
+  declarator?: NodePath<t.VariableDeclarator>
+
+  /** The defaults object passed to withDefaults() */
+  defaults?: t.ObjectExpression
+}
+
+/**
+ * Runtime constructors that exactly describe a type, so no PropType<T> is needed.
+ */
+const EXACT_TYPES: Record<string, string> = {
+  TSStringKeyword: 'String',
+  TSNumberKeyword: 'Number',
+  TSBooleanKeyword: 'Boolean',
+  TSSymbolKeyword: 'Symbol',
+  TSBigIntKeyword: 'BigInt',
+}
+
+/**
+ * Built-in classes that can be used as runtime prop types.
+ */
+const BUILTIN_CLASSES = ['Date', 'RegExp', 'Error', 'Map', 'Set', 'WeakMap', 'WeakSet', 'Promise']
+
+/**
+ * Finds all type-based defineProps<T>() usages in the given script content,
+ * including destructured props and withDefaults().
+ *
+ * @param scriptContent The content of the <script setup> block
+ * @returns The declarations or bare calls to convert
+ */
+export function findTypeDefineProps(scriptContent: string): Array<t.VariableDeclaration | t.CallExpression> {
+  return findDeclarations(parseScript(scriptContent)).map(d => d.node)
+}
+
+/**
+ * Converts type-based defineProps<T>() back to runtime object syntax.
+ * This is the inverse of `convertProps`.
+ *
+ * @param scriptContent The content of the <script setup> block
+ * @param format The style of the generated code
+ * @returns The script content with every type-based defineProps converted
+ */
+export function revertProps(scriptContent: string, format: FormatOptions = {}): string {
+  return applyTextChanges(scriptContent, revertDefineProps(scriptContent, undefined, format).changes)
+}
+
+/**
+ * Converts type-based defineProps<T>() declarations back to runtime object syntax,
+ * rewriting destructured prop usages to `props.xxx` and importing `PropType` if needed.
+ *
+ * @param scriptContent The content of the <script setup> block
+ * @param at Only convert the declaration containing this offset (all if omitted)
+ * @param format The style of the generated code
+ * @returns The changes (offsets relative to the script content), the number of converted declarations and the problems found
+ */
+export function revertDefineProps(scriptContent: string, at?: number, format: FormatOptions = {}): Omit<SfcConversion, 'code'> {
+  const ast = parseScript(scriptContent)
+  const changes: TextChange[] = []
+  const issues: ConversionIssue[] = []
+  let needsPropType = false
+  let converted = 0
+
+  for (const declaration of findDeclarations(ast)) {
+    const { node } = declaration
+    if (at !== undefined && (at < (node.start ?? 0) || at > (node.end ?? 0))) continue
+
+    const result = revertDeclaration(scriptContent, ast, declaration, format)
+    issues.push(...result.issues)
+
+    if (result.issues.some(issue => issue.severity === 'error')) continue
+
+    changes.push(...result.changes)
+    needsPropType ||= result.usesPropType
+    converted++
+  }
+
+  if (needsPropType && !isImported(ast, 'PropType')) {
+    changes.push(addImport(scriptContent, ast, formatCode('import type { PropType } from \'vue\'', format)))
+  }
+
+  return { changes, converted, issues }
+}
+
+/**
+ * Finds the type-based defineProps<T>() declarations of a parsed script.
+ *
+ * @param ast The parsed script
+ * @returns The found declarations
+ */
+function findDeclarations(ast: t.File): TypeDefineProps[] {
+  const declarations: TypeDefineProps[] = []
+
+  traverse(ast, {
+    CallExpression(path: NodePath<t.CallExpression>) {
+      const call = path.node
+      if (
+        !t.isIdentifier(call.callee, { name: 'defineProps' }) ||
+        call.arguments.length ||
+        !call.typeParameters?.params.length
+      ) {
+        return
+      }
+
+      // withDefaults(defineProps<T>(), { ... })
+      let outer: NodePath = path
+      let defaults: t.ObjectExpression | undefined
+      const parent = path.parentPath
+
+      if (
+        parent.isCallExpression() &&
+        t.isIdentifier(parent.node.callee, { name: 'withDefaults' }) &&
+        parent.node.arguments[0] === call
+      ) {
+        outer = parent
+        const arg = parent.node.arguments[1]
+        if (t.isObjectExpression(arg)) defaults = arg
+      }
+
+      const declarator = outer.parentPath
+      if (declarator?.isVariableDeclarator() && declarator.parentPath.isVariableDeclaration()) {
+        declarations.push({ node: declarator.parentPath.node, call, declarator, defaults })
+      } else if (outer === path) {
+        declarations.push({ node: call, call })
+      }
+    },
+  })
+
+  return declarations
+}
+
+/**
+ * Converts a single type-based defineProps<T>() declaration.
+ *
+ * @param source The script content
+ * @param ast The parsed script
+ * @param declaration The declaration to convert
+ * @param format The style of the generated code
+ * @returns The changes, the problems found and whether `PropType` is used
+ */
+function revertDeclaration(
+  source: string,
+  ast: t.File,
+  declaration: TypeDefineProps,
+  format: FormatOptions,
+): PropsFix & { usesPropType: boolean } {
+  const { node, call, declarator, defaults } = declaration
+  const changes: TextChange[] = []
+  const issues: ConversionIssue[] = []
+  const report = (message: string, target: t.Node) => issues.push({
+    message,
+    start: target.start ?? 0,
+    end: target.end ?? 0,
+    severity: 'error',
+  })
+
+  const members = resolveTypeMembers(ast, call.typeParameters!.params[0])
+  if (!members) {
+    report('The props type can\'t be resolved: only type literals, local interfaces and type aliases are supported.', call)
+    return { changes, issues, usesPropType: false }
+  }
+
+  const props: Array<PropDefinition & { typeNode: t.TSType }> = []
+
+  for (const member of members) {
+    if (
+      !t.isTSPropertySignature(member) ||
+      member.computed ||
+      !(t.isIdentifier(member.key) || t.isStringLiteral(member.key)) ||
+      !member.typeAnnotation
+    ) {
+      report('Only plain property signatures can be converted to runtime props.', member)
+      continue
+    }
+
+    const typeNode = member.typeAnnotation.typeAnnotation
+    const comment = member.leadingComments?.length
+      ? member.leadingComments.map(c => reindentComment(source.slice(c.start ?? 0, c.end ?? 0))).join('\n')
+      : undefined
+
+    props.push({
+      name: t.isIdentifier(member.key) ? member.key.name : member.key.value,
+      type: source.slice(typeNode.start ?? 0, typeNode.end ?? 0),
+      required: !member.optional,
+      comment,
+      typeNode,
+    })
+  }
+
+  // Collect defaults from withDefaults() or the destructure pattern
+  const pattern = declarator && t.isObjectPattern(declarator.node.id) ? declarator.node.id : undefined
+  const locals = new Map<string, string>()
+  const defaultValues = new Map<string, { code: string, isFactory: boolean }>()
+
+  for (const prop of defaults?.properties ?? []) {
+    const key = t.isObjectProperty(prop) || t.isObjectMethod(prop) ? getKeyName(prop.key) : undefined
+    if (!t.isObjectProperty(prop) || key === undefined) {
+      report('Only plain `key: value` defaults can be converted.', prop)
+      continue
+    }
+    defaultValues.set(key, { code: source.slice(prop.value.start ?? 0, prop.value.end ?? 0), isFactory: true })
+  }
+
+  for (const prop of pattern?.properties ?? []) {
+    const key = t.isObjectProperty(prop) ? getKeyName(prop.key) : undefined
+    if (!t.isObjectProperty(prop) || key === undefined) {
+      report('Rest elements and computed keys in the props destructure can\'t be converted.', prop)
+      continue
+    }
+
+    const value = prop.value
+    if (t.isIdentifier(value)) {
+      locals.set(key, value.name)
+    } else if (t.isAssignmentPattern(value) && t.isIdentifier(value.left)) {
+      locals.set(key, value.left.name)
+      defaultValues.set(key, { code: source.slice(value.right.start ?? 0, value.right.end ?? 0), isFactory: false })
+    } else {
+      report('Nested destructuring of props can\'t be converted.', prop)
+    }
+  }
+
+  if (issues.length) return { changes, issues, usesPropType: false }
+
+  // Destructured props become a `props` object, so it must not clash with an existing name
+  const propsName = pattern ? 'props' : declarator && t.isIdentifier(declarator.node.id) ? declarator.node.id.name : undefined
+  if (pattern && declarator?.scope.hasBinding('props')) {
+    report('\'props\' is already declared, the destructured props can\'t be converted back to a props object.', pattern)
+    return { changes, issues, usesPropType: false }
+  }
+
+  let usesPropType = false
+
+  // The types and defaults copied from the source aren't restyled
+  const preserved: string[] = []
+
+  const entries = props.map(prop => {
+    const defaultValue = defaultValues.get(prop.name)
+    const nested = prop.required || defaultValue !== undefined
+    const keep = (code: string) => preserve(preserved, nested ? indent(code, '    ') : code)
+
+    const runtime = toRuntimeType(prop.typeNode)
+    const typeCode = runtime.exact ? runtime.constructor : `${runtime.constructor} as PropType<${keep(prop.type)}>`
+    usesPropType ||= !runtime.exact
+
+    const fields = [`type: ${typeCode}`]
+    if (prop.required) fields.push('required: true')
+    if (defaultValue) fields.push(`default: ${keep(toRuntimeDefault(defaultValue.code, defaultValue.isFactory, runtime.constructor))}`)
+
+    const key = formatPropKey(prop.name)
+    const value = fields.length === 1
+      ? `${key}: ${typeCode}`
+      : `${key}: {\n    ${fields.map(f => indent(f, '    ')).join(',\n    ')}\n  }`
+
+    return prop.comment ? `${indent(prop.comment, '  ')}\n  ${value}` : value
+  })
+
+  const runtimeCall = `defineProps({\n  ${entries.join(',\n  ')}\n})`
+  const text = propsName
+    ? formatCode(`${declaration.node.type === 'VariableDeclaration' ? (node as t.VariableDeclaration).kind : 'const'} ${propsName} = ${runtimeCall}`, format, 'statements', preserved)
+    : formatCode(runtimeCall, format, 'expression', preserved)
+
+  changes.push({ start: node.start ?? 0, end: node.end ?? 0, text })
+
+  // Destructured locals are accessed through the props object again
+  if (pattern && declarator) {
+    for (const [key, local] of locals) {
+      const binding = declarator.scope.getBinding(local)
+      const access = t.isValidIdentifier(key, false) ? `props.${key}` : `props[${formatPropKey(key)}]`
+
+      for (const reference of binding?.referencePaths ?? []) {
+        const parent = reference.parent
+        // Shorthand properties need an explicit key: { title } → { title: props.title }
+        const shorthand = t.isObjectProperty(parent) && parent.shorthand && parent.value === reference.node
+
+        changes.push({
+          start: reference.node.start ?? 0,
+          end: reference.node.end ?? 0,
+          text: shorthand ? `${local}: ${access}` : access,
+        })
+      }
+    }
+  }
+
+  return { changes, issues, usesPropType }
+}
+
+/**
+ * Resolves the members of the props type: a type literal, or a local
+ * interface / type alias referencing one.
+ *
+ * @param ast The parsed script
+ * @param type The type argument of defineProps<T>()
+ * @returns The type members, or `undefined` if the type can't be resolved
+ */
+function resolveTypeMembers(ast: t.File, type: t.TSType): t.TSTypeElement[] | undefined {
+  if (t.isTSTypeLiteral(type)) return type.members
+  if (!t.isTSTypeReference(type) || !t.isIdentifier(type.typeName) || type.typeParameters) return undefined
+
+  const name = type.typeName.name
+
+  for (const statement of ast.program.body) {
+    const declaration = t.isExportNamedDeclaration(statement) ? statement.declaration : statement
+
+    if (t.isTSInterfaceDeclaration(declaration) && declaration.id.name === name && !declaration.extends?.length) {
+      return declaration.body.body
+    }
+
+    if (t.isTSTypeAliasDeclaration(declaration) && declaration.id.name === name) {
+      return resolveTypeMembers(ast, declaration.typeAnnotation)
+    }
+  }
+
+  return undefined
+}
+
+/**
+ * Maps a TypeScript type to the runtime constructor(s) Vue validates against.
+ *
+ * @param type The TypeScript type
+ * @returns The runtime type code, and whether it exactly describes the type (no PropType<T> needed)
+ */
+function toRuntimeType(type: t.TSType): { constructor: string, exact: boolean } {
+  if (t.isTSParenthesizedType(type)) return toRuntimeType(type.typeAnnotation)
+
+  if (EXACT_TYPES[type.type]) return { constructor: EXACT_TYPES[type.type], exact: true }
+
+  if (t.isTSAnyKeyword(type) || t.isTSUnknownKeyword(type)) return { constructor: 'null', exact: true }
+
+  if (t.isTSLiteralType(type)) {
+    if (t.isStringLiteral(type.literal) || t.isTemplateLiteral(type.literal)) return { constructor: 'String', exact: false }
+    if (t.isNumericLiteral(type.literal) || t.isUnaryExpression(type.literal)) return { constructor: 'Number', exact: false }
+    if (t.isBooleanLiteral(type.literal)) return { constructor: 'Boolean', exact: false }
+  }
+
+  if (t.isTSArrayType(type) || t.isTSTupleType(type)) return { constructor: 'Array', exact: false }
+
+  if (t.isTSFunctionType(type)) return { constructor: 'Function', exact: false }
+
+  if (t.isTSTypeReference(type) && t.isIdentifier(type.typeName)) {
+    const name = type.typeName.name
+    if (name === 'Array' || name === 'ReadonlyArray') return { constructor: 'Array', exact: false }
+    if (BUILTIN_CLASSES.includes(name)) return { constructor: name, exact: !type.typeParameters }
+  }
+
+  if (t.isTSUnionType(type)) {
+    const constructors: string[] = []
+    let exact = true
+
+    for (const member of type.types) {
+      // null / undefined are allowed for optional props anyway
+      if (t.isTSNullKeyword(member) || t.isTSUndefinedKeyword(member)) continue
+
+      const runtime = toRuntimeType(member)
+      if (runtime.constructor === 'null') return { constructor: 'null', exact: true }
+
+      exact &&= runtime.exact
+      if (!constructors.includes(runtime.constructor)) constructors.push(runtime.constructor)
+    }
+
+    if (constructors.length === 1) return { constructor: constructors[0], exact }
+    if (constructors.length > 1) return { constructor: `[${constructors.join(', ')}]`, exact }
+  }
+
+  // object types, records, interfaces and classes
+  return { constructor: 'Object', exact: false }
+}
+
+/**
+ * Converts a default value to the runtime `default` option.
+ * Object and array defaults need a factory in the runtime declaration.
+ *
+ * @param code The default value code
+ * @param isFactory Whether the default comes from withDefaults(), where factories are already required
+ * @param constructor The runtime type of the prop
+ * @returns The runtime default value code
+ */
+function toRuntimeDefault(code: string, isFactory: boolean, constructor: string): string {
+  if (isFactory || constructor === 'Function') return code
+
+  try {
+    const expr = babel.parseExpression(code, { plugins: ['typescript'] })
+
+    if (t.isObjectExpression(expr)) return `() => (${code})`
+    if (t.isArrayExpression(expr)) return `() => ${code}`
+
+    // Other expressions (e.g. `new Map()`) are evaluated per instance by Vue's destructure defaults
+    if (!t.isLiteral(expr) && !t.isIdentifier(expr) && !t.isUnaryExpression(expr) && !t.isFunction(expr)) {
+      return `() => ${code}`
+    }
+  } catch {
+    // leave as-is if parsing fails
+  }
+
+  return code
+}
+
+/**
+ * Gets the name of a static object key.
+ *
+ * @param key The key node
+ * @returns The key name, or `undefined` for computed keys
+ */
+function getKeyName(key: t.Node): string | undefined {
+  if (t.isIdentifier(key)) return key.name
+  if (t.isStringLiteral(key)) return key.value
+  return undefined
+}
+
+/**
+ * Removes the original indentation of a multi-line comment,
+ * keeping JSDoc `*` lines aligned under the opening `/**`.
+ *
+ * @param comment The comment source
+ * @returns The comment without indentation
+ */
+function reindentComment(comment: string): string {
+  return comment
+    .split('\n')
+    .map((line, i) => {
+      if (i === 0) return line
+      const trimmed = line.trim()
+      return trimmed.startsWith('*') ? ` ${trimmed}` : trimmed
+    })
+    .join('\n')
+}
+
+/**
+ * Indents all lines of a string except the first line.
+ *
+ * @param text The text to indent
+ * @param indentation The indent string to use
+ * @returns The indented text
+ */
+function indent(text: string, indentation: string): string {
+  return text.split('\n').map((line, i) => (i === 0 ? line : indentation + line)).join('\n')
+}
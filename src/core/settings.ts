@@ -0,0 +1,227 @@
+import * as vscode from 'vscode'
+import { dirname } from 'node:path'
+import {
+  findVueVersion,
+  getComponentName,
+  getEditorConfigFormat,
+  matchesGlob,
+  supportsDefineModel,
+  supportsPropsDestructure,
+} from '../shared'
+import type { ConvertOptions, FormatOptions } from '../types'
+
+/**
+ * File types of the supported document languages, standalone TypeScript files are converted as a whole.
+ */
+const FILE_TYPES: Record<string, ConvertOptions['fileType']> = {
+  vue: 'vue',
+  typescript: 'ts',
+  typescriptreact: 'tsx',
+}
+
+/**
+ * Diagnostic severities of the `vuePropKonverter.severity` setting.
+ */
+const SEVERITIES: Record<string, vscode.DiagnosticSeverity> = {
+  error: vscode.DiagnosticSeverity.Error,
+  warning: vscode.DiagnosticSeverity.Warning,
+  information: vscode.DiagnosticSeverity.Information,
+  hint: vscode.DiagnosticSeverity.Hint,
+}
+
+/**
+ * The project files read for the documents of a workspace folder: the Vue version of a directory
+ * and the `.editorconfig` format of a file. They are read up the tree, once until they change.
+ */
+interface ProjectLookups {
+  /** The Vue versions, by directory */
+  vueVersions: Map<string, string | undefined>
+
+  /** The `.editorconfig` formats, by file */
+  editorConfigs: Map<string, FormatOptions>
+}
+
+/**
+ * The project lookups, by workspace folder.
+ */
+const projectLookups = new Map<string, ProjectLookups>()
+
+/**
+ * Reads the `vuePropKonverter.*` settings that control the generated code.
+ * 
+ * @param document The document being converted, used to resolve folder-specific settings
+ * @returns The conversion options
+ */
+export function getConvertOptions(document?: vscode.TextDocument): ConvertOptions {
+  const config = vscode.workspace.getConfiguration('vuePropKonverter', document)
+
+  return {
+    validatorFallback: config.get<ConvertOptions['validatorFallback']>('validatorFallback', 'comment'),
+    propsDeclaration: config.get<ConvertOptions['propsDeclaration']>('propsDeclaration', 'inline'),
+    defaultsStyle: resolveDefaultsStyle(config.get('defaultsStyle', 'auto'), document),
+    emitsDeclaration: config.get<ConvertOptions['emitsDeclaration']>('emitsDeclaration', 'tuple'),
+    javascript: config.get<ConvertOptions['javascript']>('javascript', 'off'),
+    optionsApi: config.get<ConvertOptions['optionsApi']>('optionsApi', 'type'),
+    format: resolveFormatOptions(config, document),
+    fileType: document ? FILE_TYPES[document.languageId] : undefined,
+    componentName: document ? getComponentName(document.uri.path) : undefined,
+  }
+}
+
+/**
+ * Resolves the `vuePropKonverter.defaultsStyle` setting, picking the
+ * style from the project's Vue version when set to `auto`.
+ * 
+ * @param setting The configured style
+ * @param document The document being converted
+ * @returns The defaults style to use
+ */
+function resolveDefaultsStyle(setting: string, document?: vscode.TextDocument): ConvertOptions['defaultsStyle'] {
+  if (setting === 'destructure' || setting === 'withDefaults') return setting
+  if (document?.uri.scheme !== 'file') return 'destructure'
+
+  return supportsPropsDestructure(getVueVersion(document)) ? 'destructure' : 'withDefaults'
+}
+
+/**
+ * Resolves the style of the generated code. The `auto` indentation and quotes are read
+ * from the `.editorconfig` of the document, then from the editor options.
+ * 
+ * @param config The `vuePropKonverter` configuration
+ * @param document The document being converted
+ * @returns The format options
+ */
+function resolveFormatOptions(config: vscode.WorkspaceConfiguration, document?: vscode.TextDocument): FormatOptions {
+  const editorConfig = document?.uri.scheme === 'file' ? getEditorConfig(document) : {}
+
+  // The options of an open editor account for indentation detection, the settings are the fallback
+  const editorOptions = vscode.window.visibleTextEditors.find(editor => editor.document === document)?.options
+  const editorSettings = vscode.workspace.getConfiguration('editor', document)
+  const insertSpaces = editorOptions?.insertSpaces ?? editorSettings.get<boolean>('insertSpaces', true)
+  const tabSize = editorOptions?.tabSize ?? editorSettings.get<number>('tabSize', 2)
+
+  const indentStyle = config.get<'auto' | 'space' | 'tab'>('indentStyle', 'auto')
+  const indentSize = config.get<number | null>('indentSize', null) ?? (typeof tabSize === 'number' ? tabSize : 2)
+  const quotes = config.get<'auto' | 'single' | 'double'>('quotes', 'auto')
+
+  let indent: string
+  if (indentStyle === 'tab') indent = '\t'
+  else if (indentStyle === 'space') indent = ' '.repeat(indentSize)
+  else indent = editorConfig.indent ?? (insertSpaces === false ? '\t' : ' '.repeat(indentSize))
+
+  return {
+    indent,
+    semicolons: config.get<boolean>('semicolons', false),
+    quotes: quotes === 'auto' ? editorConfig.quotes ?? 'single' : quotes,
+    trailingCommas: config.get<boolean>('trailingCommas', false),
+    multilineThreshold: config.get<number>('multilineThreshold', 1),
+  }
+}
+
+/**
+ * Checks whether `defineModel()` can be used in the project of the document (Vue 3.4+).
+ * 
+ * @param document The document being converted
+ * @returns `true` if `defineModel()` is available or the Vue version is unknown
+ */
+export function isDefineModelAvailable(document: vscode.TextDocument): boolean {
+  if (document.uri.scheme !== 'file') return true
+
+  return supportsDefineModel(getVueVersion(document))
+}
+
+/**
+ * Finds the Vue version of the project of a file document, cached per workspace folder.
+ * 
+ * @param document The document being converted
+ * @returns The `major.minor` version, or `undefined` if it can't be found
+ */
+function getVueVersion(document: vscode.TextDocument): string | undefined {
+  const { vueVersions } = getProjectLookups(document)
+  const dir = dirname(document.uri.fsPath)
+
+  if (!vueVersions.has(dir)) vueVersions.set(dir, findVueVersion(dir))
+  return vueVersions.get(dir)
+}
+
+/**
+ * Reads the `.editorconfig` format of a file document, cached per workspace folder.
+ * 
+ * @param document The document being converted
+ * @returns The format options found
+ */
+function getEditorConfig(document: vscode.TextDocument): FormatOptions {
+  const { editorConfigs } = getProjectLookups(document)
+  const path = document.uri.fsPath
+
+  if (!editorConfigs.has(path)) editorConfigs.set(path, getEditorConfigFormat(path))
+  return editorConfigs.get(path) ?? {}
+}
+
+/**
+ * Gets the project lookups of the workspace folder of a document.
+ * 
+ * @param document The document being converted
+ * @returns The lookups, shared by the documents outside of workspace folders
+ */
+function getProjectLookups(document: vscode.TextDocument): ProjectLookups {
+  const key = vscode.workspace.getWorkspaceFolder(document.uri)?.uri.toString() ?? ''
+
+  if (!projectLookups.has(key)) projectLookups.set(key, { vueVersions: new Map(), editorConfigs: new Map() })
+  return projectLookups.get(key)!
+}
+
+/**
+ * Forgets the project lookups of the workspace folder of a changed `package.json` or `.editorconfig`.
+ * 
+ * @param uri The changed file, all lookups are forgotten if omitted
+ */
+export function clearProjectLookups(uri?: vscode.Uri): void {
+  if (!uri) {
+    projectLookups.clear()
+    return
+  }
+
+  projectLookups.delete(vscode.workspace.getWorkspaceFolder(uri)?.uri.toString() ?? '')
+}
+
+/**
+ * Checks whether a document can contain defineProps / defineEmits to convert:
+ * Vue SFCs, and standalone TypeScript files calling them.
+ * 
+ * @param document The document to check
+ * @returns `true` if the document should be scanned
+ */
+export function isSupportedDocument(document: vscode.TextDocument): boolean {
+  if (isIgnoredDocument(document)) return false
+  if (document.languageId === 'vue') return true
+
+  // Only parse the TypeScript files that use the macros
+  return document.languageId in FILE_TYPES && /\bdefine(?:Props|Emits)\s*\(/.test(document.getText())
+}
+
+/**
+ * Checks whether a document matches one of the `vuePropKonverter.ignore` globs,
+ * relative to its workspace folder.
+ * 
+ * @param document The document to check
+ * @returns `true` if the document is neither reported nor converted
+ */
+export function isIgnoredDocument(document: vscode.TextDocument): boolean {
+  const globs = vscode.workspace.getConfiguration('vuePropKonverter', document).get<string[]>('ignore', [])
+  if (!globs.length) return false
+
+  const path = vscode.workspace.asRelativePath(document.uri, false)
+  return globs.some(glob => matchesGlob(path, glob.replace(/^\.?\//, '')))
+}
+
+/**
+ * Reads the `vuePropKonverter.severity` setting, the severity of the diagnostics suggesting a conversion.
+ * 
+ * @param document The document being scanned
+ * @returns The diagnostic severity
+ */
+export function getDiagnosticSeverity(document: vscode.TextDocument): vscode.DiagnosticSeverity {
+  const severity = vscode.workspace.getConfiguration('vuePropKonverter', document).get('severity', 'information')
+  return SEVERITIES[severity] ?? vscode.DiagnosticSeverity.Information
+}
@@ -0,0 +1,601 @@
+import { parse } from '@vue/compiler-sfc'
+import * as t from '@babel/types'
+import { findOptionsComponent, toScriptSetup, typeOptionsProps } from '../core/component'
+import { convertDefinePropsNode, findObjectDefineProps, indentAt, removeSpreadObjects } from '../core/converter'
+import { convertDefineEmits, findRuntimeDefineEmits } from '../core/emits'
+import { addImport, fixTypeImports, findUnresolvableTypes, isImported } from '../core/imports'
+import { convertModel, findModelPairs } from '../core/model'
+import { documentDefineProps, hasPropsTypedef } from '../core/jsdoc'
+import { revertDefineProps } from '../core/reverse'
+import { collectTemplateReferences, rewritePropsUsages } from '../core/usages'
+import { camelize, isTypeScriptLang, parseScript } from '../shared'
+import type { SFCDescriptor } from '@vue/compiler-sfc'
+import type { ConversionIssue, ConvertOptions, ModelPair, PropsFix, ScriptBlock, SfcConversion, TextChange } from '../types'
+
+/**
+ * Comment keeping the next defineProps or defineEmits declaration as is: `// vue-prop-konverter-disable-next-line`.
+ */
+const DISABLE_COMMENT = /^\s*(?:\/\/|\/\*)\s*vue-prop-konverter-disable-next-line\b/
+
+/**
+ * Converts every object-style defineProps and runtime defineEmits usage of a Vue SFC
+ * and replaces the `props.xxx` usages of the destructured props.
+ * Only runs inside `<script setup lang="ts">` / `<script setup lang="tsx">` blocks, unless
+ * the `javascript` option enables JavaScript blocks. Standalone script files are converted
+ * as a whole (`fileType` option).
+ *
+ * @param source The full source of the Vue SFC
+ * @param options Options controlling the generated code
+ * @returns The conversion result, or `null` if the SFC has no `<script setup>` block to convert
+ */
+export function convertSfc(source: string, options: ConvertOptions = {}): SfcConversion | null {
+  const block = resolveScriptBlock(source, options)
+  if (!block) return null
+
+  const changes: TextChange[] = []
+  const issues: SfcConversion['issues'] = []
+  const convertedNodes: Array<t.VariableDeclaration | t.CallExpression> = []
+  let converted = 0
+
+  for (const node of findConvertibleProps(block)) {
+    const fix = convertNode(block, node, options)
+    if (!fix) continue
+
+    issues.push(...fix.issues)
+    if (!fix.changes.length) continue
+
+    changes.push(...fix.changes)
+    convertedNodes.push(node)
+    converted++
+  }
+
+  const imports = convertImports(block, changes, convertedNodes)
+  changes.push(...imports.changes)
+  issues.push(...imports.issues)
+
+  for (const node of findConvertibleEmits(block)) {
+    const fix = convertEmitsNode(block, node, options)
+    if (!fix) continue
+
+    issues.push(...fix.issues)
+    if (!fix.changes.length) continue
+
+    changes.push(...fix.changes)
+    converted++
+  }
+
+  if (converted) changes.push(...block.langChanges)
+
+  return { code: applyTextChanges(source, changes), changes, converted, issues }
+}
+
+/**
+ * Converts the object-style defineProps declaration at the given range
+ * and replaces the `props.xxx` usages of the destructured props.
+ *
+ * @param source The full source of the document
+ * @param start Start offset of the defineProps declaration
+ * @param end End offset of the defineProps declaration
+ * @param options Options controlling the generated code
+ * @returns The changes and conflicts, or `null` if the declaration could not be converted
+ */
+export function convertDefinePropsAt(
+  source: string,
+  start: number,
+  end: number,
+  options: ConvertOptions = {},
+): PropsFix | null {
+  const block = resolveScriptBlock(source, options)
+  if (!block) return null
+
+  const node = findConvertibleProps(block)
+    .find(node => block.offset + (node.start ?? 0) === start && block.offset + (node.end ?? 0) === end)
+
+  const fix = node && convertNode(block, node, options)
+  if (!node || !fix?.changes.length) return fix ?? null
+
+  const imports = convertImports(block, fix.changes, [node])
+  return {
+    changes: [...fix.changes, ...imports.changes, ...block.langChanges],
+    issues: [...fix.issues, ...imports.issues],
+  }
+}
+
+/**
+ * Converts the runtime defineEmits call at the given range.
+ *
+ * @param source The full source of the document
+ * @param start Start offset of the defineEmits call
+ * @param end End offset of the defineEmits call
+ * @param options Options controlling the generated code
+ * @returns The changes and problems, or `null` if the call could not be converted
+ */
+export function convertDefineEmitsAt(
+  source: string,
+  start: number,
+  end: number,
+  options: ConvertOptions = {},
+): PropsFix | null {
+  const block = resolveScriptBlock(source, options)
+  if (!block) return null
+
+  const node = findConvertibleEmits(block)
+    .find(node => block.offset + (node.start ?? 0) === start && block.offset + (node.end ?? 0) === end)
+
+  const fix = node && convertEmitsNode(block, node, options)
+  if (!fix?.changes.length) return fix ?? null
+
+  return { changes: [...fix.changes, ...block.langChanges], issues: fix.issues }
+}
+
+/**
+ * Finds the prop/emit pairs implementing `v-model`, which can be replaced by `defineModel()`.
+ *
+ * @param source The full source of the Vue SFC
+ * @returns The pairs with offsets inside the SFC, or `null` if the SFC has no `<script setup lang="ts">` block
+ */
+export function findSfcModelPairs(source: string): ModelPair[] | null {
+  const block = resolveScriptBlock(source)
+  if (!block) return null
+
+  return findModelPairs(block.content)
+    .map(pair => ({ ...pair, start: block.offset + pair.start, end: block.offset + pair.end }))
+}
+
+/**
+ * Replaces the prop/emit pair of the given prop with `defineModel()`,
+ * updating its usages in the script and the template.
+ *
+ * @param source The full source of the Vue SFC
+ * @param name Name of the model prop
+ * @returns The changes and conflicts, or `null` if the pair could not be found
+ */
+export function convertModelAt(source: string, name: string): PropsFix | null {
+  const block = resolveScriptBlock(source)
+  if (!block) return null
+
+  return convertModel(block.content, block.offset, name, block.template)
+}
+
+/**
+ * Finds the `props` option of an Options API component in a `<script lang="ts">` block
+ * without `<script setup>`, if it can be typed or moved to `<script setup>`.
+ *
+ * @param source The full source of the Vue SFC
+ * @param options Options controlling the conversion
+ * @returns The range of the `props` option inside the SFC, or `null` if there is nothing to convert
+ */
+export function findSfcOptionsProps(source: string, options: ConvertOptions = {}): { start: number, end: number } | null {
+  const block = resolveOptionsBlock(source)
+  const component = block && findOptionsComponent(block.content)
+  if (!block || !component || isDisabled(block.content, component.props)) return null
+
+  const fix = convertOptionsProps(source, options)
+  if (!fix?.changes.length) return null
+
+  return { start: block.offset + (component.props.start ?? 0), end: block.offset + (component.props.end ?? 0) }
+}
+
+/**
+ * Converts the props of the Options API component of a Vue SFC: typed in place, or moved
+ * to `<script setup>` with the `optionsApi: 'scriptSetup'` option. Components that can't be
+ * moved are typed in place, with a warning explaining why.
+ *
+ * @param source The full source of the Vue SFC
+ * @param options Options controlling the conversion
+ * @returns The changes, the problems and whether the component was moved to `<script setup>`,
+ * or `null` if the SFC has no Options API component with object props
+ */
+export function convertOptionsProps(source: string, options: ConvertOptions = {}): PropsFix & { moved: boolean } | null {
+  const block = resolveOptionsBlock(source)
+  const component = block && findOptionsComponent(block.content)
+  if (!block || !component) return null
+
+  const { offset } = block
+  const props = { start: offset + (component.props.start ?? 0), end: offset + (component.props.end ?? 0) }
+  const issues: ConversionIssue[] = []
+
+  if (options.optionsApi === 'scriptSetup') {
+    const moved = toScriptSetup(block.content, component)
+
+    // The moved script is converted like any other <script setup>
+    const result = 'content' in moved
+      ? convertSfc(applyTextChanges(source, [
+        { start: block.tagStart + '<script'.length, end: block.tagStart + '<script'.length, text: ' setup' },
+        { start: offset, end: offset + block.content.length, text: moved.content },
+      ]), options)
+      : null
+
+    const errors = result?.issues.filter(issue => issue.severity === 'error') ?? []
+    const reason = 'reason' in moved ? moved.reason : errors.map(issue => issue.message).join(' ')
+
+    if (result && !errors.length) {
+      // The issues refer to the moved script, report them on the props
+      return {
+        changes: [diffChange(source, result.code)],
+        issues: result.issues.map(issue => ({ ...issue, ...props })),
+        moved: true,
+      }
+    }
+
+    issues.push({
+      message: `The component can't be moved to <script setup>: ${reason}. Its props are typed in place instead.`,
+      ...props,
+      severity: 'warning',
+    })
+  }
+
+  const fix = typeOptionsProps(block.content, component)
+  const changes = fix.changes.map(change => ({ ...change, start: offset + change.start, end: offset + change.end }))
+  const typeIssues = fix.issues.map(issue => ({ ...issue, start: offset + issue.start, end: offset + issue.end }))
+
+  return { changes, issues: [...issues, ...typeIssues], moved: false }
+}
+
+/**
+ * Converts type-based defineProps<T>() usages of a Vue SFC back to
+ * runtime object syntax. This is the inverse of `convertSfc`.
+ *
+ * @param source The full source of the Vue SFC
+ * @param at Only convert the declaration containing this offset (all if omitted)
+ * @param options Options controlling the generated code
+ * @returns The conversion result, or `null` if the SFC has no `<script setup lang="ts">` block
+ */
+export function revertSfc(source: string, at?: number, options: ConvertOptions = {}): SfcConversion | null {
+  const block = resolveScriptBlock(source)
+  if (!block) return null
+
+  const offset = block.offset
+  const fix = revertDefineProps(block.content, at === undefined ? undefined : at - offset, options.format)
+
+  const shift = ({ start, end }: { start: number, end: number }) => ({ start: offset + start, end: offset + end })
+  const changes = fix.changes.map(change => ({ ...change, ...shift(change) }))
+  const issues = fix.issues.map(issue => ({ ...issue, ...shift(issue) }))
+
+  return { code: applyTextChanges(source, changes), changes, converted: fix.converted, issues }
+}
+
+/**
+ * Applies non-overlapping text changes to a source text.
+ *
+ * @param source The original source text
+ * @param changes The changes to apply (in any order)
+ * @returns The updated source text
+ */
+export function applyTextChanges(source: string, changes: TextChange[]): string {
+  let result = source
+
+  // Apply from the end so earlier offsets stay valid
+  for (const change of [...changes].sort((a, b) => b.start - a.start)) {
+    result = result.slice(0, change.start) + change.text + result.slice(change.end)
+  }
+
+  return result
+}
+
+/**
+ * Resolves the script to convert: the `<script setup>` block of a Vue SFC, detected by its
+ * `lang` attribute, or the whole file for standalone script files (`fileType` option).
+ *
+ * @param source The full source of the file
+ * @param options Options controlling which scripts are converted
+ * @returns The script, or `null` if the file has no `<script setup>` block to convert
+ */
+export function resolveScriptBlock(source: string, options: ConvertOptions = {}): ScriptBlock | null {
+  if (options.fileType === 'ts' || options.fileType === 'tsx') {
+    return { content: source, offset: 0, lang: options.fileType, jsdoc: false, generic: '', langChanges: [] }
+  }
+
+  const { descriptor } = parse(source)
+  const scriptSetup = descriptor.scriptSetup
+  if (!scriptSetup) return null
+
+  // A `<script setup>` without `lang` is JavaScript
+  const lang = scriptSetup.lang ?? 'js'
+  const javascript = options.javascript ?? 'off'
+  const typescript = isTypeScriptLang(lang)
+
+  if (!typescript && (javascript === 'off' || (lang !== 'js' && lang !== 'jsx'))) return null
+
+  return {
+    content: scriptSetup.content,
+    offset: scriptSetup.loc.start.offset,
+    lang,
+    jsdoc: !typescript && javascript === 'jsdoc',
+    generic: typeof scriptSetup.attrs.generic === 'string' ? scriptSetup.attrs.generic : '',
+    // Template expressions can't be analyzed for other template languages (e.g. pug)
+    template: descriptor.template && !descriptor.template.lang ? descriptor.template.ast : undefined,
+    langChanges: !typescript && javascript === 'typescript' ? switchToTypeScript(source, descriptor) : [],
+  }
+}
+
+/**
+ * Resolves the `<script lang="ts">` block of an Options API component: SFCs without `<script setup>`.
+ *
+ * @param source The full source of the Vue SFC
+ * @returns The content and offset of the block, and the offset of its opening tag, or `null` if there is no such block
+ */
+function resolveOptionsBlock(source: string): { content: string, offset: number, tagStart: number } | null {
+  const { descriptor } = parse(source)
+  const script = descriptor.script
+  if (!script || descriptor.scriptSetup || !isTypeScriptLang(script.lang ?? 'js')) return null
+
+  const offset = script.loc.start.offset
+  return { content: script.content, offset, tagStart: source.lastIndexOf('<script', offset) }
+}
+
+/**
+ * Creates a single change turning a source into another, covering the text between their common prefix and suffix.
+ *
+ * @param source The original source
+ * @param code The changed source
+ * @returns The change
+ */
+function diffChange(source: string, code: string): TextChange {
+  let start = 0
+  while (start < source.length && source[start] === code[start]) start++
+
+  let end = 0
+  while (end < Math.min(source.length, code.length) - start && source[source.length - 1 - end] === code[code.length - 1 - end]) end++
+
+  return { start, end: source.length - end, text: code.slice(start, code.length - end) }
+}
+
+/**
+ * Finds the object-style defineProps declarations to convert in a script.
+ * In JSDoc mode, declarations already documented with a `@typedef` are skipped.
+ *
+ * @param block The script
+ * @returns The defineProps declarations inside the script content
+ */
+export function findConvertibleProps(block: ScriptBlock): Array<t.VariableDeclaration | t.CallExpression> {
+  return findObjectDefineProps(block.content)
+    .filter(node => !isDisabled(block.content, node) && (!block.jsdoc || !hasPropsTypedef(block.content, node)))
+}
+
+/**
+ * Finds the runtime defineEmits calls to convert in a script.
+ * In JSDoc mode emits are left alone.
+ *
+ * @param block The script
+ * @returns The defineEmits calls inside the script content
+ */
+export function findConvertibleEmits(block: ScriptBlock): t.CallExpression[] {
+  return block.jsdoc ? [] : findRuntimeDefineEmits(block.content).filter(node => !isDisabled(block.content, node))
+}
+
+/**
+ * Checks whether a declaration is intentionally kept as is, with a
+ * `// vue-prop-konverter-disable-next-line` comment on the line above it.
+ *
+ * @param scriptContent The content of the script
+ * @param node The defineProps declaration or defineEmits call
+ * @returns `true` if the declaration must not be converted
+ */
+function isDisabled(scriptContent: string, node: t.Node): boolean {
+  const lineStart = scriptContent.lastIndexOf('\n', (node.start ?? 0) - 1) + 1
+  const previousLine = scriptContent.slice(scriptContent.lastIndexOf('\n', lineStart - 2) + 1, lineStart)
+
+  return DISABLE_COMMENT.test(previousLine)
+}
+
+/**
+ * Switches the script blocks of a JavaScript SFC to TypeScript: `<script>` and
+ * `<script setup>` must use the same language.
+ *
+ * @param source The full source of the Vue SFC
+ * @param descriptor The SFC descriptor
+ * @returns The changes to the `lang` attributes of the script tags
+ */
+function switchToTypeScript(source: string, descriptor: SFCDescriptor): TextChange[] {
+  const lang = descriptor.scriptSetup?.lang === 'jsx' ? 'tsx' : 'ts'
+  const changes: TextChange[] = []
+
+  for (const block of [descriptor.script, descriptor.scriptSetup]) {
+    if (!block) continue
+
+    // The content starts right after the opening tag
+    const tagStart = source.lastIndexOf('<script', block.loc.start.offset)
+    const tag = source.slice(tagStart, block.loc.start.offset)
+    const attribute = tag.match(/\slang\s*=\s*(["'])[^"']*\1/)
+
+    if (attribute?.index !== undefined) {
+      const start = tagStart + attribute.index
+      changes.push({ start, end: start + attribute[0].length, text: ` lang="${lang}"` })
+    } else {
+      const start = tagStart + '<script'.length
+      changes.push({ start, end: start, text: ` lang="${lang}"` })
+    }
+  }
+
+  return changes
+}
+
+/**
+ * Converts a single defineProps declaration found in the script,
+ * or documents it with a `@typedef` in JSDoc mode.
+ *
+ * @param block The script
+ * @param node The defineProps declaration inside the script content
+ * @param options Options controlling the generated code
+ * @returns The changes and conflicts, or `null` if the declaration could not be converted
+ */
+function convertNode(
+  block: ScriptBlock,
+  node: t.VariableDeclaration | t.CallExpression,
+  options: ConvertOptions,
+): PropsFix | null {
+  // skip malformed nodes
+  if (node.start == null || node.end == null) return null
+
+  // offsets inside the script content must be shifted by the offset of the script
+  const offset = block.offset
+
+  if (block.jsdoc) {
+    const fix = documentDefineProps(block.content, node, options)
+    if (!fix) return null
+
+    const changes = fix.changes.map(change => ({ ...change, start: offset + change.start, end: offset + change.end }))
+    return { changes, issues: fix.issues }
+  }
+
+  const conversion = convertDefinePropsNode(block.content, node, options)
+
+  // Guard: If conversion failed, skip
+  if (!conversion) return null
+
+  // Replace the old defineProps call
+  const start = offset + node.start
+  const changes: TextChange[] = [{ start, end: offset + node.end, text: conversion.code }]
+  const issues = conversion.issues.map(issue => ({ ...issue, start: start + issue.start, end: start + issue.end }))
+
+  // Props that can't be declared as a type are reported, the declaration is left unchanged
+  if (issues.some(issue => issue.severity === 'error')) return { changes: [], issues }
+
+  // The spread prop objects only the declaration used are declared by its type now
+  const removed = removeSpreadObjects(block.content, node, collectTemplateReferences(block.template?.children ?? []))
+    .map(change => ({ ...change, start: offset + change.start, end: offset + change.end }))
+
+  // Only destructured props are accessed directly, withDefaults() keeps the `props` object
+  if (!conversion.destructured) return { changes: [...changes, ...removed], issues }
+
+  // Vue normalizes kebab-case prop names, so both `props['data-id']` and `props.dataId` are valid
+  const bindings = new Map<string, string>()
+  for (const prop of conversion.props) {
+    bindings.set(prop.name, prop.local ?? prop.name)
+    bindings.set(camelize(prop.name), prop.local ?? prop.name)
+  }
+
+  const usages = rewritePropsUsages(block.content, offset, node.start, bindings, block.template)
+  issues.push(...usages.issues)
+
+  // Conflicts would produce broken code: report them and leave the declaration unchanged
+  if (usages.issues.some(issue => issue.severity === 'error')) return { changes: [], issues }
+
+  return { changes: [...changes, ...removed, ...usages.changes], issues }
+}
+
+/**
+ * Updates the imports after defineProps declarations were converted (value imports
+ * only used as types become type imports, an unused `PropType` import is removed,
+ * types of `vue` used without import and the `watchEffect` of runtime validator checks are imported) and warns about prop types Vue's compiler can't resolve.
+ *
+ * @param block The script
+ * @param changes The conversion changes, with offsets inside the SFC source
+ * @param nodes The converted defineProps declarations
+ * @returns The import changes and the unresolvable types found
+ */
+function convertImports(
+  block: ScriptBlock,
+  changes: TextChange[],
+  nodes: Array<t.VariableDeclaration | t.CallExpression>,
+): PropsFix {
+  // JSDoc mode keeps the runtime declarations, and with them the imports
+  if (block.jsdoc || !nodes.length) return { changes: [], issues: [] }
+
+  const { offset, content } = block
+
+  // Apply the changes to the script alone, to analyze the converted code
+  const scriptChanges = changes
+    .filter(change => change.start >= offset && change.end <= offset + content.length)
+    .map(change => ({ ...change, start: change.start - offset, end: change.end - offset }))
+  const converted = applyTextChanges(content, scriptChanges)
+
+  // Identifiers of the runtime declarations (e.g. `User` in `type: User`) may now only be used as types
+  const names = new Set<string>(['PropType'])
+  const props = new Map<string, t.Node>()
+  const ast = parseScript(content)
+
+  // The removed spread prop objects are runtime declarations too
+  const removed = ast.program.body.filter(statement =>
+    scriptChanges.some(change => !change.text && change.start <= (statement.start ?? 0) && (statement.end ?? 0) <= change.end))
+
+  for (const statement of removed) {
+    t.traverseFast(statement, child => {
+      if (t.isIdentifier(child)) names.add(child.name)
+    })
+  }
+
+  for (const node of nodes) {
+    t.traverseFast(node, child => {
+      if (t.isIdentifier(child)) names.add(child.name)
+    })
+
+    const call = t.isCallExpression(node) ? node : node.declarations[0].init
+    const arg = t.isCallExpression(call) ? call.arguments[0] : undefined
+
+    for (const prop of t.isObjectExpression(arg) ? arg.properties : []) {
+      if (!t.isObjectProperty(prop)) continue
+      if (t.isIdentifier(prop.key)) props.set(prop.key.name, prop)
+      else if (t.isStringLiteral(prop.key)) props.set(prop.key.value, prop)
+    }
+  }
+
+  // Imports read by the template (`Size.Large`) stay value imports
+  const templateReferences = collectTemplateReferences(block.template?.children ?? [])
+  const importChanges = fixTypeImports(content, converted, names, templateReferences)
+    .map(change => ({ ...change, start: offset + change.start, end: offset + change.end }))
+
+  // `<script setup generic="T extends Item">` declares type parameters for the props type
+  const typeParameters = [...block.generic.matchAll(/(?:^|,)\s*([A-Za-z_$][\w$]*)/g)].map(match => match[1])
+
+  const problems = findUnresolvableTypes(converted, typeParameters).filter(problem => props.has(problem.prop))
+
+  // Types of `vue` used without import (auto-imports) are imported, Vue's compiler resolves them then
+  const missingImports = [...new Set(problems.map(problem => problem.missingImport).filter(name => name !== undefined))]
+  const declarations = missingImports.length ? [`import type { ${missingImports.join(', ')} } from 'vue'`] : []
+
+  // The runtime validator checks (`validatorFallback: 'runtime'`) run in watchEffect()
+  if (scriptChanges.some(change => change.text.includes('watchEffect(')) && !isImported(ast, 'watchEffect')) {
+    declarations.push('import { watchEffect } from \'vue\'')
+  }
+
+  if (declarations.length) {
+    const declaration = declarations.join('\n')
+    const change = addImport(content, ast, declaration)
+    const start = offset + change.start
+
+    // The last import may be the removed `PropType` import: it's replaced instead
+    const removed = importChanges.find(c => c.start <= start && start < c.end && !c.text)
+    if (removed) removed.text = `${declaration}${content.slice(removed.start - offset, removed.end - offset).match(/\s*$/)?.[0] ?? ''}`
+    else importChanges.push({ ...change, start, end: offset + change.end })
+  }
+
+  const issues: ConversionIssue[] = problems
+    .filter(problem => !problem.missingImport)
+    .map(({ prop, message }) => {
+      const node = props.get(prop)
+      return { message, start: offset + (node?.start ?? 0), end: offset + (node?.end ?? 0), severity: 'warning' }
+    })
+
+  return { changes: importChanges, issues }
+}
+
+/**
+ * Converts a single defineEmits call found in the script.
+ *
+ * @param block The script
+ * @param node The defineEmits call inside the script content
+ * @param options Options controlling the generated code
+ * @returns The changes and problems, or `null` if the call could not be converted
+ */
+function convertEmitsNode(
+  block: ScriptBlock,
+  node: t.CallExpression,
+  options: ConvertOptions,
+): PropsFix | null {
+  // skip malformed nodes
+  if (node.start == null || node.end == null) return null
+
+  const conversion = convertDefineEmits(block.content.slice(node.start, node.end), options)
+  if (!conversion) return null
+
+  const start = block.offset + node.start
+  const issues = conversion.issues.map(issue => ({ ...issue, start: start + issue.start, end: start + issue.end }))
+
+  // Events that can't be converted would be lost: leave the call unchanged
+  if (issues.some(issue => issue.severity === 'error')) return { changes: [], issues }
+
+  const text = indentAt(block.content, node.start, conversion.code)
+  return { changes: [{ start, end: start + (node.end - node.start), text }], issues }
+}
@@ -0,0 +1,332 @@
+import * as babel from '@babel/parser'
+import traverse from '@babel/traverse'
+import * as t from '@babel/types'
+import { NodeTypes } from '@vue/compiler-core'
+import { parseScript } from '../shared'
+import type { NodePath } from '@babel/traverse'
+import type { DirectiveNode, RootNode, SimpleExpressionNode, TemplateChildNode } from '@vue/compiler-core'
+import type { ConversionIssue, PropsFix, TextChange } from '../types'
+
+/**
+ * Shared state while rewriting `props.xxx` usages.
+ */
+interface RewriteContext {
+  /** Name of the props object variable (e.g. `props` in `const props = defineProps()`) */
+  propsName: string
+
+  /** Maps every way a prop can be accessed (name, original key, camelized key) to its local binding */
+  bindings: Map<string, string>
+
+  changes: TextChange[]
+  issues: ConversionIssue[]
+}
+
+/**
+ * A JavaScript expression of the template, with the names declared around it.
+ */
+interface TemplateExpression {
+  expression: SimpleExpressionNode
+
+  /** Names declared by enclosing `v-for` / `v-slot` directives */
+  aliases: Set<string>
+}
+
+/**
+ * Rewrites `props.xxx` usages into the destructured local bindings, using Babel
+ * scope analysis for the script and the Vue template AST for the template.
+ *
+ * Usages that can't be rewritten safely are reported as errors instead:
+ * locals shadowing a prop, the props object used as a whole, or dynamic access.
+ *
+ * @param scriptContent The content of the <script setup> block
+ * @param scriptOffset Offset of the script content inside the SFC source
+ * @param declarationStart Offset of the defineProps declaration inside the script content
+ * @param bindings Maps prop keys to the local names they are destructured into
+ * @param template The template AST, if the SFC has a template
+ * @returns The changes replacing the usages, and the conflicts found
+ */
+export function rewritePropsUsages(
+  scriptContent: string,
+  scriptOffset: number,
+  declarationStart: number,
+  bindings: Map<string, string>,
+  template?: RootNode,
+): PropsFix {
+  const ast = parseScript(scriptContent)
+
+  const changes: TextChange[] = []
+  const issues: ConversionIssue[] = []
+  let declarator: NodePath<t.VariableDeclarator> | undefined
+
+  traverse(ast, {
+    VariableDeclarator(path: NodePath<t.VariableDeclarator>) {
+      const declaration = path.parentPath
+      if (declaration.node.start === declarationStart && t.isIdentifier(path.node.id)) {
+        declarator = path
+        path.stop()
+      }
+    },
+  })
+
+  // A bare defineProps() call has no props object to rewrite
+  const id = declarator?.node.id
+  if (!declarator || !t.isIdentifier(id)) return { changes, issues }
+
+  const context: RewriteContext = { propsName: id.name, bindings, changes, issues }
+  const programScope = declarator.scope.getProgramParent()
+
+  // The destructured bindings must not redeclare existing top-level names
+  for (const local of new Set(bindings.values())) {
+    const binding = programScope.getOwnBinding(local)
+    if (!binding || binding.identifier === id) continue
+
+    const node = binding.identifier
+    issues.push({
+      message: `'${local}' is already declared, destructuring the prop would redeclare it. Rename the variable before converting.`,
+      start: scriptOffset + (node.start ?? 0),
+      end: scriptOffset + (node.end ?? 0),
+      severity: 'error',
+    })
+  }
+
+  const binding = declarator.scope.getBinding(id.name)
+
+  for (const reference of binding?.referencePaths ?? []) {
+    if (!reference.isIdentifier()) continue
+
+    rewriteReference(reference, scriptOffset, new Set(), context)
+  }
+
+  if (template) rewriteTemplate(template.children, new Set(), context)
+
+  return { changes, issues }
+}
+
+/**
+ * Rewrites a single reference to the props object.
+ *
+ * @param reference The identifier referencing the props object
+ * @param offset Offset of the parsed code inside the SFC source
+ * @param aliases Names declared by enclosing `v-for` / `v-slot` directives
+ * @param context The rewrite context
+ */
+function rewriteReference(
+  reference: NodePath<t.Identifier>,
+  offset: number,
+  aliases: Set<string>,
+  context: RewriteContext,
+): void {
+  const { propsName, bindings, changes, issues } = context
+  const parent = reference.parent
+  const target = t.isMemberExpression(parent) || t.isOptionalMemberExpression(parent) ? parent : undefined
+
+  const report = (message: string, node: t.Node) => issues.push({
+    message,
+    start: offset + (node.start ?? 0),
+    end: offset + (node.end ?? 0),
+    severity: 'error',
+  })
+
+  if (!target || target.object !== reference.node) {
+    report(`'${propsName}' is used as a whole, which is not possible once props are destructured.`, reference.node)
+    return
+  }
+
+  let key: string | undefined
+  if (!target.computed && t.isIdentifier(target.property)) key = target.property.name
+  else if (target.computed && t.isStringLiteral(target.property)) key = target.property.value
+
+  if (key === undefined) {
+    report(`'${propsName}' is accessed with a dynamic key, which can't be replaced by a destructured prop.`, target)
+    return
+  }
+
+  const local = bindings.get(key)
+
+  if (!local) {
+    report(`'${key}' is not a declared prop, '${propsName}.${key}' can't be replaced.`, target)
+    return
+  }
+
+  // Top-level declarations are reported separately, only nested ones shadow the prop
+  const shadow = reference.scope.getBinding(local)
+  if (aliases.has(local) || (shadow && shadow.scope !== reference.scope.getProgramParent())) {
+    report(`'${local}' is shadowed by a local variable here, '${propsName}.${key}' can't be replaced. Rename the local variable before converting.`, target)
+    return
+  }
+
+  changes.push({
+    start: offset + (target.start ?? 0),
+    end: offset + (target.end ?? 0),
+    text: local,
+  })
+}
+
+/**
+ * Rewrites `props.xxx` usages in template expressions.
+ *
+ * @param nodes The template nodes to walk
+ * @param aliases Names declared by enclosing `v-for` / `v-slot` directives
+ * @param context The rewrite context
+ */
+function rewriteTemplate(nodes: TemplateChildNode[], aliases: Set<string>, context: RewriteContext): void {
+  for (const { expression, aliases: scope } of collectTemplateExpressions(nodes, aliases)) {
+    rewriteExpression(expression, scope, context)
+  }
+}
+
+/**
+ * Collects the JavaScript expressions of a template (interpolations, directive
+ * expressions and dynamic arguments), with the `v-for` / `v-slot` aliases in scope.
+ *
+ * @param nodes The template nodes to walk
+ * @param aliases Names declared by enclosing `v-for` / `v-slot` directives
+ * @returns The expressions in template order
+ */
+export function collectTemplateExpressions(
+  nodes: TemplateChildNode[],
+  aliases: Set<string> = new Set(),
+): TemplateExpression[] {
+  const expressions: TemplateExpression[] = []
+
+  for (const node of nodes) {
+    if (node.type === NodeTypes.INTERPOLATION) {
+      expressions.push({ expression: node.content as SimpleExpressionNode, aliases })
+      continue
+    }
+
+    if (node.type !== NodeTypes.ELEMENT) continue
+
+    const elementAliases = new Set(aliases)
+    const childAliases = new Set(aliases)
+    const directives = node.props.filter((prop): prop is DirectiveNode => prop.type === NodeTypes.DIRECTIVE)
+
+    for (const directive of directives) {
+      if (directive.name === 'for' && directive.forParseResult) {
+        const { source, value, key, index } = directive.forParseResult
+
+        // The iterated source is evaluated outside of the loop scope
+        expressions.push({ expression: source as SimpleExpressionNode, aliases })
+
+        for (const alias of [value, key, index]) {
+          for (const name of extractParamNames((alias as SimpleExpressionNode | undefined)?.content)) {
+            elementAliases.add(name)
+            childAliases.add(name)
+          }
+        }
+      } else if (directive.name === 'slot') {
+        for (const name of extractParamNames((directive.exp as SimpleExpressionNode | undefined)?.content)) {
+          childAliases.add(name)
+        }
+      }
+    }
+
+    for (const directive of directives) {
+      if (directive.name === 'for' || directive.name === 'slot') continue
+
+      if (directive.arg && directive.arg.type === NodeTypes.SIMPLE_EXPRESSION && !directive.arg.isStatic) {
+        expressions.push({ expression: directive.arg, aliases: elementAliases })
+      }
+
+      if (directive.exp) expressions.push({ expression: directive.exp as SimpleExpressionNode, aliases: elementAliases })
+    }
+
+    expressions.push(...collectTemplateExpressions(node.children, childAliases))
+  }
+
+  return expressions
+}
+
+/**
+ * Collects the script bindings a template reads: the names referenced by its expressions,
+ * except the `v-for` / `v-slot` aliases and the parameters declared inside the expressions.
+ *
+ * @param nodes The template nodes to walk
+ * @returns The referenced names
+ */
+export function collectTemplateReferences(nodes: TemplateChildNode[]): Set<string> {
+  const references = new Set<string>()
+
+  for (const { expression, aliases } of collectTemplateExpressions(nodes)) {
+    const parsed = expression.isStatic ? null : parseTemplateExpression(expression.content)
+    if (!parsed) continue
+
+    traverse(parsed.ast, {
+      Identifier(path: NodePath<t.Identifier>) {
+        const { name } = path.node
+        if (path.isReferencedIdentifier() && !aliases.has(name) && !path.scope.hasBinding(name)) references.add(name)
+      },
+    })
+  }
+
+  return references
+}
+
+/**
+ * Rewrites `props.xxx` usages in a single template expression.
+ * Event handlers may contain statements, so both forms are parsed.
+ *
+ * @param expression The template expression
+ * @param aliases Names declared by enclosing `v-for` / `v-slot` directives
+ * @param context The rewrite context
+ */
+function rewriteExpression(expression: SimpleExpressionNode, aliases: Set<string>, context: RewriteContext): void {
+  if (expression.isStatic || !expression.content.includes(context.propsName)) return
+
+  const parsed = parseTemplateExpression(expression.content)
+  if (!parsed) return
+
+  const offset = expression.loc.start.offset - parsed.shift
+
+  traverse(parsed.ast, {
+    Identifier(path: NodePath<t.Identifier>) {
+      if (path.node.name !== context.propsName || !path.isReferencedIdentifier()) return
+
+      // Shadowed by a v-for / v-slot alias or a parameter inside the expression
+      if (aliases.has(context.propsName) || path.scope.hasBinding(context.propsName)) return
+
+      rewriteReference(path, offset, aliases, context)
+    },
+  })
+}
+
+/**
+ * Parses a template expression, falling back to statements for event handlers.
+ *
+ * @param content The expression source
+ * @returns The AST and how many characters were prepended to the source, or `null` if it doesn't parse
+ */
+export function parseTemplateExpression(content: string): { ast: t.File, shift: number } | null {
+  const plugins: babel.ParserPlugin[] = ['typescript']
+
+  try {
+    return { ast: babel.parse(`(${content})`, { plugins }), shift: 1 }
+  } catch {
+    try {
+      return { ast: babel.parse(content, { plugins }), shift: 0 }
+    } catch {
+      return null
+    }
+  }
+}
+
+/**
+ * Extracts the declared names of a parameter list such as `(item, index)` or `{ title }`.
+ *
+ * @param params The parameter source
+ * @returns The declared names
+ */
+function extractParamNames(params: string | undefined): string[] {
+  if (!params?.trim()) return []
+
+  try {
+    const expr = babel.parseExpression(`(${params.replace(/^\s*\(([\s\S]*)\)\s*$/, '$1')}) => 0`, {
+      plugins: ['typescript'],
+    })
+    if (!t.isArrowFunctionExpression(expr)) return []
+
+    return expr.params.flatMap(param => Object.keys(t.getBindingIdentifiers(param)))
+  } catch {
+    return []
+  }
+}
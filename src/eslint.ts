@@ -0,0 +1,175 @@
+import { dirname } from 'node:path'
+import { convertDefinePropsAt, findConvertibleProps, resolveScriptBlock } from './core/sfc'
+import { findVueVersion, getComponentName, getEditorConfigFormat, getFileType, supportsPropsDestructure } from './shared'
+import type * as t from '@babel/types'
+import type { ESLint, Linter, Rule } from 'eslint'
+import type { ConvertOptions, ScriptBlock } from './types'
+
+/**
+ * Options of the `prefer-type-props` rule, the conversion options of the CLI.
+ */
+interface RuleOptions extends Pick<ConvertOptions, 'validatorFallback' | 'propsDeclaration' | 'javascript' | 'format'> {
+  /** `auto` picks the style from the Vue version of the project, like the extension and the CLI */
+  defaultsStyle?: ConvertOptions['defaultsStyle'] | 'auto'
+}
+
+/**
+ * `vue-prop-konverter/prefer-type-props`: reports object-style `defineProps({})` and fixes them
+ * with the conversion of the extension, including the `props.x` usages of the script and the template.
+ *
+ * The rule reads the full source of the file, so it works with `vue-eslint-parser` for `.vue`
+ * files and with any TypeScript parser for standalone `.ts` / `.tsx` files.
+ */
+const preferTypeProps: Rule.RuleModule = {
+  meta: {
+    type: 'suggestion',
+    docs: {
+      description: 'Prefer type-based defineProps<T>() over object-style defineProps({})',
+      url: 'https://github.com/arashsheyda/vue-prop-konverter#eslint-plugin',
+    },
+    fixable: 'code',
+    schema: [
+      {
+        type: 'object',
+        properties: {
+          validatorFallback: { enum: ['comment', 'runtime'] },
+          propsDeclaration: { enum: ['inline', 'interface', 'type'] },
+          defaultsStyle: { enum: ['auto', 'destructure', 'withDefaults'] },
+          javascript: { enum: ['off', 'jsdoc', 'typescript'] },
+          format: {
+            type: 'object',
+            properties: {
+              indent: { type: 'string' },
+              semicolons: { type: 'boolean' },
+              quotes: { enum: ['single', 'double'] },
+              trailingCommas: { type: 'boolean' },
+              multilineThreshold: { type: 'integer', minimum: 0 },
+            },
+            additionalProperties: false,
+          },
+        },
+        additionalProperties: false,
+      },
+    ],
+    messages: {
+      preferTypeProps: 'Object-style defineProps() used. Convert to the type-safe variant.',
+      conflict: 'Object-style defineProps() used, it can\'t be converted automatically: {{issues}}',
+    },
+  },
+
+  /**
+   * Creates the visitor of a linted file.
+   *
+   * @param context The rule context
+   * @returns The visitor, empty for files other than Vue SFCs and TypeScript files
+   */
+  create(context) {
+    const fileType = getFileType(context.filename)
+    if (!fileType) return {}
+
+    const options = resolveRuleOptions(context.options[0] ?? {}, context.filename, fileType)
+
+    return {
+      Program() {
+        const { sourceCode } = context
+        const source = sourceCode.text
+
+        // Like the extension, skip the files without the macros before parsing them
+        if (!/\bdefine(?:Props|Emits)\s*\(/.test(source)) return
+
+        let block: ScriptBlock | null
+        let nodes: Array<t.VariableDeclaration | t.CallExpression>
+
+        try {
+          // vue-eslint-parser reports the <script setup> block, the offsets are inside the whole file
+          block = resolveScriptBlock(source, options)
+          nodes = block ? findConvertibleProps(block) : []
+        } catch {
+          // syntax the converter doesn't parse (decorators, ...), the parser of the project reports real errors
+          return
+        }
+
+        if (!block) return
+
+        for (const node of nodes) {
+          const start = block.offset + (node.start ?? 0)
+          const end = block.offset + (node.end ?? 0)
+          const loc = { start: sourceCode.getLocFromIndex(start), end: sourceCode.getLocFromIndex(end) }
+
+          const result = convertDefinePropsAt(source, start, end, options)
+          const errors = result?.issues.filter(issue => issue.severity === 'error') ?? []
+
+          // Conflicts are reported without a fix, instead of producing broken code
+          if (errors.length) {
+            context.report({ loc, messageId: 'conflict', data: { issues: errors.map(issue => issue.message).join(' ') } })
+            continue
+          }
+
+          context.report({
+            loc,
+            messageId: 'preferTypeProps',
+            fix: result?.changes.length
+              ? fixer => result.changes.map(change => fixer.replaceTextRange([change.start, change.end], change.text))
+              : null,
+          })
+        }
+      },
+    }
+  },
+}
+
+/**
+ * Resolves the options of the rule for a file, reading the indentation and quotes
+ * from `.editorconfig` and the Vue version of the project like the CLI.
+ *
+ * @param ruleOptions The configured rule options
+ * @param filename The path of the linted file
+ * @param fileType The type of the linted file
+ * @returns The conversion options
+ */
+function resolveRuleOptions(ruleOptions: RuleOptions, filename: string, fileType: ConvertOptions['fileType']): ConvertOptions {
+  const { defaultsStyle = 'auto', format, ...options } = ruleOptions
+
+  return {
+    ...options,
+    fileType,
+    componentName: getComponentName(filename),
+    format: { ...getEditorConfigFormat(filename), ...format },
+    defaultsStyle: defaultsStyle === 'auto'
+      ? supportsPropsDestructure(findVueVersion(dirname(filename))) ? 'destructure' : 'withDefaults'
+      : defaultsStyle,
+  }
+}
+
+/**
+ * Plugin metadata.
+ */
+export const meta: ESLint.Plugin['meta'] = {
+  name: 'vue-prop-konverter',
+}
+
+/**
+ * The rules of the plugin.
+ */
+export const rules: Record<string, Rule.RuleModule> = {
+  'prefer-type-props': preferTypeProps,
+}
+
+/**
+ * The ESLint plugin: `import vuePropKonverter from 'vue-prop-konverter/eslint'`.
+ */
+const plugin: ESLint.Plugin = { meta, rules }
+
+/**
+ * Shareable flat configs: `recommended` reports object-style defineProps as warnings.
+ */
+export const configs: Record<string, Linter.Config> = {
+  recommended: {
+    plugins: { 'vue-prop-konverter': plugin },
+    rules: { 'vue-prop-konverter/prefer-type-props': 'warn' },
+  },
+}
+
+plugin.configs = configs
+
+export default plugin
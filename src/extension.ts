@@ -1,6 +1,16 @@
 import * as vscode from 'vscode'
-import { createDiagnosticCollection, scanDocument } from './core/diagnostics'
-import { propFixProvider } from './core/actions'
+import { cancelScan, createDiagnosticCollection, scanDocument, scheduleScan } from './core/diagnostics'
+import { FIX_ALL_KIND, propFixProvider } from './core/actions'
+import { convertPropsCommand, migrationReportCommand, revertPropsCommand } from './core/commands'
+import {
+  PREVIEW_SCHEME,
+  applyPreviewCommand,
+  discardPreviewCommand,
+  disposePreview,
+  previewContentProvider,
+  previewConversionCommand,
+} from './core/preview'
+import { clearProjectLookups } from './core/settings'
 
 /**
  * This method is called when the extension is activated.
@@ -14,22 +24,59 @@ export function activate(context: vscode.ExtensionContext) {
   const diagnostics = createDiagnosticCollection()
   context.subscriptions.push(diagnostics)
 
-  // Register the code action provider for Vue files
+  // Register the code action provider for Vue files and standalone TypeScript files
   // This enables the QuickFix lightbulb for suggested prop conversions
   context.subscriptions.push(
-    vscode.languages.registerCodeActionsProvider('vue', propFixProvider, {
-      providedCodeActionKinds: [vscode.CodeActionKind.QuickFix],
+    vscode.languages.registerCodeActionsProvider(['vue', 'typescript', 'typescriptreact'], propFixProvider, {
+      providedCodeActionKinds: [vscode.CodeActionKind.QuickFix, vscode.CodeActionKind.RefactorRewrite, FIX_ALL_KIND],
     }),
   )
 
+  // Output channel used to report details of batch conversions
+  const output = vscode.window.createOutputChannel('Vue Prop Konverter')
+  context.subscriptions.push(output)
+
+  // Register the batch conversion command (current file, folder or whole workspace)
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'vue-prop-konverter.convertProps',
+      (uri?: vscode.Uri) => convertPropsCommand(output, uri),
+    ),
+    vscode.commands.registerCommand(
+      'vue-prop-konverter.revertProps',
+      (uri?: vscode.Uri) => revertPropsCommand(output, uri),
+    ),
+    vscode.commands.registerCommand('vue-prop-konverter.migrationReport', migrationReportCommand),
+  )
+
+  // Register the preview of a conversion in the diff editor, applied or discarded from the editor title
+  context.subscriptions.push(
+    vscode.workspace.registerTextDocumentContentProvider(PREVIEW_SCHEME, previewContentProvider),
+    vscode.commands.registerCommand('vue-prop-konverter.previewConversion', previewConversionCommand),
+    vscode.commands.registerCommand('vue-prop-konverter.applyPreview', applyPreviewCommand),
+    vscode.commands.registerCommand('vue-prop-konverter.discardPreview', discardPreviewCommand),
+    vscode.workspace.onDidCloseTextDocument(disposePreview),
+  )
+
   // Initial scan: Check all open documents for old-style defineProps
   vscode.workspace.textDocuments.forEach(doc => scanDocument(doc, diagnostics))
 
   // Listen for document open and change events
-  // Re-scan the document whenever it is opened or edited
+  // Re-scan the document whenever it is opened, and once its edits stop
   context.subscriptions.push(
     vscode.workspace.onDidOpenTextDocument(doc => scanDocument(doc, diagnostics)),
-    vscode.workspace.onDidChangeTextDocument(e => scanDocument(e.document, diagnostics)),
+    vscode.workspace.onDidChangeTextDocument(e => scheduleScan(e.document, diagnostics)),
+    vscode.workspace.onDidCloseTextDocument(cancelScan),
+  )
+
+  // The Vue version and the .editorconfig are read again once they change
+  const projectFiles = vscode.workspace.createFileSystemWatcher('**/{package.json,.editorconfig}')
+  context.subscriptions.push(
+    projectFiles,
+    projectFiles.onDidChange(clearProjectLookups),
+    projectFiles.onDidCreate(clearProjectLookups),
+    projectFiles.onDidDelete(clearProjectLookups),
+    vscode.workspace.onDidChangeWorkspaceFolders(() => clearProjectLookups()),
   )
 }
 
@@ -1,7 +1,275 @@
+import { existsSync, readFileSync } from 'node:fs'
+import { basename, dirname, extname, join, relative, sep } from 'node:path'
+import * as babel from '@babel/parser'
+import type * as t from '@babel/types'
+import type { ConvertOptions, FormatOptions } from '../types'
+
 /**
- * Checks if a Vue script block is `<script setup lang="ts">` 
- * or `<script lang="ts" setup>` (order-independent).
+ * Checks if a script language is TypeScript (`lang="ts"` or `lang="tsx"`).
+ * 
+ * @param lang The `lang` attribute of the script block, or the extension of a script file
+ * @returns `true` for TypeScript and TSX
  */
-export function isScriptSetupTs(text: string): boolean {
-  return /<script\b(?=[^>]*\bsetup\b)(?=[^>]*\blang=["']ts["'])/.test(text)
+export function isTypeScriptLang(lang: string | undefined): boolean {
+  return lang === 'ts' || lang === 'tsx'
+}
+
+/**
+ * Parses script content with the TypeScript plugin. Scripts that only parse with
+ * the JSX plugin (`lang="tsx"`, `.tsx` files) are parsed again with it: it isn't
+ * enabled up front because it changes how `<T>value` type assertions are parsed.
+ * 
+ * @param scriptContent The script to parse
+ * @returns The Babel AST
+ * @throws The syntax error of the TypeScript parse if neither parse succeeds
+ */
+export function parseScript(scriptContent: string): t.File {
+  try {
+    return babel.parse(scriptContent, { sourceType: 'module', plugins: ['typescript'] })
+  } catch (error) {
+    try {
+      return babel.parse(scriptContent, { sourceType: 'module', plugins: ['typescript', 'jsx'] })
+    } catch {
+      throw error
+    }
+  }
+}
+
+/**
+ * Converts a kebab-case prop name to camelCase, the way Vue normalizes prop names.
+ * 
+ * @param name The prop name
+ * @returns The camelCased name
+ */
+export function camelize(name: string): string {
+  return name.replace(/-(\w)/g, (_, c: string) => c.toUpperCase())
+}
+
+/**
+ * Gets the file type of a path from its extension: Vue SFCs, or standalone TypeScript files.
+ * 
+ * @param filePath The path of the file
+ * @returns The file type, or `undefined` for other files
+ */
+export function getFileType(filePath: string): ConvertOptions['fileType'] | undefined {
+  const extension = extname(filePath)
+  return extension === '.vue' ? 'vue' : extension === '.ts' ? 'ts' : extension === '.tsx' ? 'tsx' : undefined
+}
+
+/**
+ * Derives a PascalCase component name from a file path.
+ * `index.vue` files are named after their parent directory.
+ * 
+ * @example getComponentName('src/components/base-button.vue') // 'BaseButton'
+ * @param filePath The path of the component file
+ * @returns The component name, or an empty string if none can be derived
+ */
+export function getComponentName(filePath: string): string {
+  const segments = filePath.split(/[\\/]/).filter(Boolean)
+  let name = (segments.pop() ?? '').replace(/\.[^.]+$/, '')
+
+  if (name === 'index') name = segments.pop() ?? name
+
+  return name
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean)
+    .map(w => w.charAt(0).toUpperCase() + w.slice(1))
+    .join('')
+    .replace(/^[0-9]+/, '')
+}
+
+/**
+ * Finds the Vue version used by the project containing the given directory.
+ * Prefers the installed `vue` package and falls back to the version range
+ * declared in the nearest `package.json` that depends on `vue`.
+ * 
+ * @param dir The directory to start searching from
+ * @returns The `major.minor` version (e.g. `3.4`), or `undefined` if not found
+ */
+export function findVueVersion(dir: string): string | undefined {
+  let current = dir
+
+  while (true) {
+    const installed = join(current, 'node_modules', 'vue', 'package.json')
+    const manifest = join(current, 'package.json')
+
+    try {
+      if (existsSync(installed)) {
+        const version = parseMinorVersion(JSON.parse(readFileSync(installed, 'utf-8')).version)
+        if (version) return version
+      }
+
+      if (existsSync(manifest)) {
+        const pkg = JSON.parse(readFileSync(manifest, 'utf-8'))
+        const range = pkg.dependencies?.vue ?? pkg.devDependencies?.vue ?? pkg.peerDependencies?.vue
+        const version = typeof range === 'string' ? parseMinorVersion(range) : undefined
+        if (version) return version
+      }
+    } catch {
+      // ignore unreadable or malformed manifests
+    }
+
+    const parent = dirname(current)
+    if (parent === current) return undefined
+    current = parent
+  }
+}
+
+/**
+ * Checks whether a Vue version supports reactive props destructure (Vue 3.5+).
+ * Unknown versions are assumed to be recent.
+ * 
+ * @param version The `major.minor` version
+ * @returns `true` if props can be destructured with defaults
+ */
+export function supportsPropsDestructure(version: string | undefined): boolean {
+  if (!version) return true
+  const [major, minor] = version.split('.').map(Number)
+  return major > 3 || (major === 3 && minor >= 5)
+}
+
+/**
+ * Checks whether a Vue version supports `defineModel()` (Vue 3.4+).
+ * Unknown versions are assumed to be recent.
+ * 
+ * @param version The `major.minor` version
+ * @returns `true` if `defineModel()` is available
+ */
+export function supportsDefineModel(version: string | undefined): boolean {
+  if (!version) return true
+  const [major, minor] = version.split('.').map(Number)
+  return major > 3 || (major === 3 && minor >= 4)
+}
+
+/**
+ * Reads the code style of a file from the `.editorconfig` files of its directory and parents:
+ * `indent_style`, `indent_size` / `tab_width` and `quote_type`.
+ * Stops at the first `.editorconfig` declaring `root = true`.
+ * 
+ * @param filePath The path of the file
+ * @returns The format options found, empty if no `.editorconfig` applies
+ */
+export function getEditorConfigFormat(filePath: string): FormatOptions {
+  const properties = readEditorConfig(filePath)
+  const format: FormatOptions = {}
+
+  const size = Number(properties.indent_size === 'tab' ? properties.tab_width : properties.indent_size ?? properties.tab_width)
+  if (properties.indent_style === 'tab') format.indent = '\t'
+  else if (properties.indent_style === 'space' || size) format.indent = ' '.repeat(size || 2)
+
+  if (properties.quote_type === 'single' || properties.quote_type === 'double') format.quotes = properties.quote_type
+
+  return format
+}
+
+/**
+ * Collects the `.editorconfig` properties applying to a file. Sections of nearer
+ * files and later sections take precedence.
+ * 
+ * @param filePath The path of the file
+ * @returns The lowercased properties
+ */
+function readEditorConfig(filePath: string): Record<string, string> {
+  const files: string[] = []
+  let current = dirname(filePath)
+
+  while (true) {
+    const file = join(current, '.editorconfig')
+
+    try {
+      if (existsSync(file)) {
+        const content = readFileSync(file, 'utf-8')
+        files.unshift(file)
+        if (/^\s*root\s*=\s*true\s*$/im.test(content)) break
+      }
+    } catch {
+      // ignore unreadable files
+    }
+
+    const parent = dirname(current)
+    if (parent === current) break
+    current = parent
+  }
+
+  const properties: Record<string, string> = {}
+
+  for (const file of files) {
+    const path = relative(dirname(file), filePath).split(sep).join('/')
+    let matches = false
+
+    for (const line of readFileSync(file, 'utf-8').split(/\r?\n/)) {
+      const text = line.trim()
+      if (!text || text.startsWith('#') || text.startsWith(';')) continue
+
+      const section = text.match(/^\[(.*)\]$/)
+      if (section) {
+        // Globs without a slash match the file name in any directory
+        const glob = section[1]
+        matches = glob.includes('/') ? matchesGlob(path, glob.replace(/^\//, '')) : matchesGlob(basename(filePath), glob)
+        continue
+      }
+
+      const property = text.match(/^([^=]+?)\s*=\s*(.*)$/)
+      if (property && matches) properties[property[1].toLowerCase()] = property[2].toLowerCase()
+    }
+  }
+
+  return properties
+}
+
+/**
+ * Checks whether a slash-separated path matches a glob (`*`, `**`, `?`, `{a,b}`).
+ * 
+ * @param path The path, relative to the directory of the glob
+ * @param glob The glob
+ * @returns `true` if the whole path matches
+ */
+export function matchesGlob(path: string, glob: string): boolean {
+  return new RegExp(`^${globToRegExp(glob)}$`).test(path)
+}
+
+/**
+ * Converts a glob (`*`, `**`, `?`, `{a,b}`) to a regular expression source.
+ * 
+ * @param glob The glob
+ * @returns The regular expression source
+ */
+function globToRegExp(glob: string): string {
+  let source = ''
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]
+
+    if (char === '*' && glob[i + 1] === '*' && glob[i + 2] === '/') {
+      // `**/` also matches no directory at all
+      source += '(?:.*/)?'
+      i += 2
+    } else if (char === '*' && glob[i + 1] === '*') {
+      source += '.*'
+      i++
+    } else if (char === '*') {
+      source += '[^/]*'
+    } else if (char === '?') {
+      source += '[^/]'
+    } else if (char === '{' && glob.indexOf('}', i) > i) {
+      const end = glob.indexOf('}', i)
+      source += `(?:${glob.slice(i + 1, end).split(',').map(globToRegExp).join('|')})`
+      i = end
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    }
+  }
+
+  return source
+}
+
+/**
+ * Extracts the lowest `major.minor` version from a version or semver range.
+ * 
+ * @param range The version or range (e.g. `^3.4.21`, `~3.3`, `3.5.x`)
+ * @returns The `major.minor` version, or `undefined` for tags like `latest` or `workspace:*`
+ */
+function parseMinorVersion(range: string): string | undefined {
+  const match = range.match(/(\d+)\.(\d+)/)
+  return match ? `${match[1]}.${match[2]}` : undefined
 }
@@ -1,3 +1,5 @@
+import type { RootNode } from '@vue/compiler-core'
+
 /**
  * Represents a Vue prop definition extracted from defineProps.
  */
@@ -19,4 +21,295 @@ export interface PropDefinition {
 
   /** Any comments associated with the prop */
   comment?: string
+
+  /** Comment on the line of the prop, after it (`title: String, // text`) */
+  trailingComment?: string
+
+  /** Name of the destructured local binding, if the prop name is not a valid identifier */
+  local?: string
+
+  /** Whether the type is inferred from the default, rather than copied from the source */
+  inferred?: boolean
+}
+
+/**
+ * Result of converting a single object-style defineProps declaration.
+ */
+export interface PropsConversion {
+  /** The generated type-safe defineProps code */
+  code: string
+
+  /** The extracted prop definitions */
+  props: PropDefinition[]
+
+  /** Whether the props are destructured (`props.xxx` usages must be replaced) */
+  destructured: boolean
+
+  /** Problems found while converting, offsets are relative to the converted code */
+  issues: ConversionIssue[]
+}
+
+/**
+ * Represents a Vue event extracted from defineEmits.
+ */
+export interface EmitDefinition {
+  /** Name of the event */
+  name: string
+
+  /** Payload parameters, formatted as named tuple members (e.g. `id: number`) */
+  params: string[]
+}
+
+/**
+ * Result of converting a single runtime defineEmits call.
+ */
+export interface EmitsConversion {
+  /** The generated type-safe defineEmits code */
+  code: string
+
+  /** The extracted event definitions */
+  emits: EmitDefinition[]
+
+  /** Problems found while converting, offsets are relative to the converted code */
+  issues: ConversionIssue[]
+}
+
+/**
+ * A prop and its `update:xxx` emit, which together implement `v-model`.
+ */
+export interface ModelPair {
+  /** Name of the prop */
+  name: string
+
+  /** Name of the update event (e.g. `update:modelValue`) */
+  event: string
+
+  /** Start offset of the prop declaration */
+  start: number
+
+  /** End offset of the prop declaration */
+  end: number
+}
+
+/**
+ * The script a conversion runs on: the `<script setup>` block of a Vue SFC, or a whole standalone script file.
+ */
+export interface ScriptBlock {
+  /** Content of the script */
+  content: string
+
+  /** Offset of the content inside the file */
+  offset: number
+
+  /** Language of the script: `ts`, `tsx`, `js` or `jsx` */
+  lang: string
+
+  /** Prop types are documented with a JSDoc `@typedef` instead of converted (`javascript: 'jsdoc'`) */
+  jsdoc: boolean
+
+  /** Type parameters of a generic component (`<script setup generic="T">`) */
+  generic: string
+
+  /** AST of the template, if its expressions can be analyzed */
+  template?: RootNode
+
+  /** Changes switching the script tags to TypeScript (`javascript: 'typescript'`), empty for TypeScript blocks */
+  langChanges: TextChange[]
+}
+
+/**
+ * Represents a replacement of the `[start, end)` offset range of a source text.
+ */
+export interface TextChange {
+  /** Start offset of the replaced range */
+  start: number
+
+  /** End offset of the replaced range */
+  end: number
+
+  /** Replacement text */
+  text: string
+}
+
+/**
+ * Result of converting all object-style defineProps and runtime defineEmits usages of a Vue SFC.
+ */
+export interface SfcConversion {
+  /** The converted SFC source */
+  code: string
+
+  /** The changes applied to the original source */
+  changes: TextChange[]
+
+  /** Number of converted defineProps / defineEmits declarations */
+  converted: number
+
+  /** Problems found while converting, declarations with errors are left unchanged */
+  issues: ConversionIssue[]
+}
+
+/**
+ * Result of converting a single defineProps declaration and its usages.
+ */
+export interface PropsFix {
+  /** The changes to apply, empty if an error prevents the conversion */
+  changes: TextChange[]
+
+  /** Problems found while converting */
+  issues: ConversionIssue[]
+}
+
+/**
+ * A problem found while converting, located by source offsets.
+ */
+export interface ConversionIssue {
+  /** Human readable description of the problem */
+  message: string
+
+  /** Start offset of the offending code */
+  start: number
+
+  /** End offset of the offending code */
+  end: number
+
+  /** Errors prevent the conversion, warnings only inform about it */
+  severity: 'error' | 'warning'
+}
+
+/**
+ * Migration counts of a component, a directory or the whole project.
+ */
+export interface ReportCounts {
+  /** Props declared in object-style defineProps({}) */
+  objectProps: number
+
+  /** Object-style props whose converted type would contain `any` */
+  anyProps: number
+
+  /** Validators that can't be expressed as a type */
+  validators: number
+
+  /** Props that can't be analyzed: spreads, computed keys, props defined by variables or calls */
+  dynamicProps: number
+
+  /** Runtime defineEmits() declarations */
+  runtimeEmits: number
+}
+
+/**
+ * Migration status of a single component.
+ */
+export interface ComponentReport extends ReportCounts {
+  /** Path of the file, relative to the scanned root */
+  path: string
+
+  /** Language of the script */
+  lang: string
+
+  /** Whether the template reads the props object (`props.x`) */
+  templatePropsUsage: boolean
+}
+
+/**
+ * Migration totals of the components of a directory, or of the whole project.
+ */
+export interface ReportTotals extends ReportCounts {
+  /** Number of components with a `<script setup>` block, or script files calling the macros */
+  components: number
+
+  /** Components with object-style defineProps or runtime defineEmits left */
+  pending: number
+
+  /** Components whose template reads the props object */
+  templatePropsUsage: number
+}
+
+/**
+ * Summary of the prop typing coverage of a project.
+ */
+export interface MigrationReport {
+  /** Totals of the whole project */
+  totals: ReportTotals
+
+  /** Totals per directory, sorted by path */
+  directories: Array<ReportTotals & { path: string }>
+
+  /** Status of every component, sorted by path */
+  components: ComponentReport[]
+}
+
+/**
+ * Options controlling the style of the generated code, so it matches the project's lint rules.
+ */
+export interface FormatOptions {
+  /** Indentation unit: two spaces (default), another number of spaces or a tab */
+  indent?: string
+
+  /** End statements and multiline type members with semicolons (default: `false`) */
+  semicolons?: boolean
+
+  /** Quotes of the generated string literals (default: `single`) */
+  quotes?: 'single' | 'double'
+
+  /** Add trailing commas to multiline objects and arrays (default: `false`) */
+  trailingCommas?: boolean
+
+  /** Maximum number of destructured props kept on a single line (default: `1`) */
+  multilineThreshold?: number
+}
+
+/**
+ * Options controlling how object-style defineProps and runtime defineEmits are converted.
+ */
+export interface ConvertOptions {
+  /**
+   * How validators that can't be expressed as a type are preserved:
+   * as a `// TODO validator:` comment next to the prop (default),
+   * or as a runtime check after the props declaration.
+   */
+  validatorFallback?: 'comment' | 'runtime'
+
+  /**
+   * How the props type is declared: inline in the defineProps call (default),
+   * or as an exported `interface` / `type` alias named `<ComponentName>Props`.
+   */
+  propsDeclaration?: 'inline' | 'interface' | 'type'
+
+  /**
+   * How default values are declared: with reactive props destructure (default, Vue 3.5+)
+   * or with `withDefaults()` (Vue 3.3/3.4).
+   */
+  defaultsStyle?: 'destructure' | 'withDefaults'
+
+  /**
+   * How the emits type is declared: named tuples (default, Vue 3.3+)
+   * or call signatures (`(e: 'change', id: number): void`).
+   */
+  emitsDeclaration?: 'tuple' | 'callSignature'
+
+  /**
+   * How `<script setup>` blocks without TypeScript (`lang="js"`, no `lang`) are handled:
+   * left alone (default), documented with a JSDoc `@typedef` of the props,
+   * or converted after switching the script tags to `lang="ts"`.
+   */
+  javascript?: 'off' | 'jsdoc' | 'typescript'
+
+  /**
+   * How the props of Options API components (`export default defineComponent({ props: {...} })`) are converted:
+   * typed in place with `defineComponent()` and `PropType<T>` (default), or moved to `<script setup>`
+   * with a type-based defineProps when the component only has a simple `setup()`.
+   */
+  optionsApi?: 'type' | 'scriptSetup'
+
+  /**
+   * Type of the converted file: a Vue SFC (default), or a standalone TypeScript / TSX file
+   * whose whole content is converted as a script.
+   */
+  fileType?: 'vue' | 'ts' | 'tsx'
+
+  /** Style of the generated code */
+  format?: FormatOptions
+
+  /** Name of the component, used to name the generated props type */
+  componentName?: string
 }
@@ -0,0 +1,105 @@
+import { glob, mkdtemp, mkdir, readFile, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest'
+import { run } from '../src/cli'
+
+const button = `<script setup lang="ts">
+const props = defineProps({
+  size: { type: String, default: 'md' }
+})
+</script>
+`
+
+const typed = `<script setup lang="ts">
+defineProps<{ title?: string }>()
+</script>
+`
+
+const conflict = `<script setup lang="ts">
+import { sizeProps } from './size'
+defineProps({ ...sizeProps })
+</script>
+`
+
+// `fs.glob` needs the Node version of the engines field (22+)
+describe.skipIf(!glob)('run', () => {
+  let cwd: string
+  let output: string[]
+  let errors: string[]
+
+  beforeEach(async () => {
+    cwd = await mkdtemp(join(tmpdir(), 'vue-prop-konverter-'))
+    await mkdir(join(cwd, 'components'))
+    await mkdir(join(cwd, 'node_modules/lib'), { recursive: true })
+    await writeFile(join(cwd, 'components/Button.vue'), button)
+    await writeFile(join(cwd, 'components/Typed.vue'), typed)
+    await writeFile(join(cwd, 'node_modules/lib/Lib.vue'), button)
+
+    output = []
+    errors = []
+    vi.spyOn(process, 'cwd').mockReturnValue(cwd)
+    vi.spyOn(console, 'log').mockImplementation((message: string) => void output.push(message))
+    vi.spyOn(console, 'error').mockImplementation((message: string) => void errors.push(message))
+    vi.spyOn(process.stdout, 'write').mockImplementation(chunk => output.push(String(chunk)) > 0)
+  })
+
+  afterEach(async () => {
+    vi.restoreAllMocks()
+    await rm(cwd, { recursive: true, force: true })
+  })
+
+  const read = (path: string) => readFile(join(cwd, path), 'utf-8')
+
+  it('should convert the Vue files of the project, except node_modules', async () => {
+    expect(await run([])).toBe(0)
+
+    expect(await read('components/Button.vue')).toContain('const { size = \'md\' } = defineProps<{')
+    expect(await read('components/Typed.vue')).toBe(typed)
+    expect(await read('node_modules/lib/Lib.vue')).toBe(button)
+    expect(output).toEqual(['converted components/Button.vue'])
+  })
+
+  it('should only convert the files matching the globs', async () => {
+    expect(await run(['**/Typed.vue'])).toBe(0)
+
+    expect(await read('components/Button.vue')).toBe(button)
+    expect(errors).toEqual(['Converted 0 file(s) with object-style defineProps or runtime defineEmits.'])
+  })
+
+  it('should report the files to convert without writing them with --dry-run', async () => {
+    expect(await run(['--dry-run'])).toBe(0)
+
+    expect(await read('components/Button.vue')).toBe(button)
+    expect(output).toEqual(['would convert components/Button.vue'])
+  })
+
+  it('should exit with code 1 with --check when files are left to convert', async () => {
+    expect(await run(['--check'])).toBe(1)
+    expect(await read('components/Button.vue')).toBe(button)
+
+    expect(await run(['--check', 'components/Typed.vue'])).toBe(0)
+  })
+
+  it('should exit with code 2 and leave the files with conversion errors unchanged', async () => {
+    await writeFile(join(cwd, 'components/Conflict.vue'), conflict)
+
+    expect(await run(['components/Conflict.vue'])).toBe(2)
+
+    expect(await read('components/Conflict.vue')).toBe(conflict)
+    expect(errors[0]).toMatch(/^components\/Conflict\.vue:3:15: The props of '\.\.\.sizeProps' are declared in another module/)
+  })
+
+  it('should print the migration report with --report', async () => {
+    expect(await run(['--report', 'json'])).toBe(0)
+
+    const report = JSON.parse(output.join(''))
+    expect(report.components.map((component: { path: string }) => component.path)).toEqual(['components/Button.vue', 'components/Typed.vue'])
+    expect(await read('components/Button.vue')).toBe(button)
+  })
+
+  it('should exit with code 2 on invalid options', async () => {
+    expect(await run(['--report', 'html'])).toBe(2)
+    expect(errors).toEqual(['Invalid --report "html", expected "markdown" or "json".'])
+  })
+})
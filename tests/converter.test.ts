@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest'
-import { convertProps } from '../src/core/converter'
+import { convertDefineProps, convertProps } from '../src/core/converter'
+import { getComponentName, matchesGlob, supportsPropsDestructure } from '../src/shared'
 import * as PropFixtures from './fixtures/props'
 
 describe('convertProps', () => {
@@ -9,4 +10,197 @@ describe('convertProps', () => {
       expect(converted).toBe(prop.ts)
     })
   }
+
+  it('should emit runtime checks for validators with the "runtime" fallback', () => {
+    const converted = convertProps(`const props = defineProps({
+  count: {
+    type: Number,
+    validator: (value: number) => value > 0
+  }
+})`, { validatorFallback: 'runtime' })
+
+    expect(converted).toBe(`const props = defineProps<{
+  count?: number
+}>()
+
+watchEffect(() => {
+  if (props.count !== undefined && !((value: number) => value > 0)(props.count)) console.warn('Invalid prop: custom validator check failed for prop "count".')
+})`)
+  })
+
+  it('should emit an exported interface named after the component', () => {
+    const converted = convertProps(`defineProps({
+  title: String,
+  size: { type: String, default: 'md' }
+})`, { propsDeclaration: 'interface', componentName: 'BaseButton' })
+
+    expect(converted).toBe(`export interface BaseButtonProps {
+  title?: string
+  size?: string
+}
+
+const {
+  title,
+  size = 'md'
+} = defineProps<BaseButtonProps>()`)
+  })
+
+  it('should emit an exported type alias named after the component', () => {
+    const converted = convertProps('defineProps({ title: String })', { propsDeclaration: 'type', componentName: 'BaseButton' })
+
+    expect(converted).toBe(`export type BaseButtonProps = {
+  title?: string
+}
+
+const props = defineProps<BaseButtonProps>()`)
+  })
+
+  it('should never evaluate default values', () => {
+    const scope = globalThis as { evaluated?: boolean }
+
+    convertProps(`defineProps({
+  config: { type: Object, default: () => ({ a: (globalThis.evaluated = true) }) },
+  items: { type: Array, default: () => ({ 0: (globalThis.evaluated = true) }) },
+})`)
+    convertProps('defineProps({ count: { type: Number, default: (globalThis.evaluated = true) } })', { defaultsStyle: 'withDefaults' })
+
+    expect(scope.evaluated).toBeUndefined()
+  })
+})
+
+describe('convertProps with withDefaults()', () => {
+  it('should keep factories for object and array defaults', () => {
+    const converted = convertProps(`const props = defineProps({
+  count: { type: Number, default: () => 5 },
+  label: { type: String, default: 'x' },
+  items: { type: Array as PropType<string[]>, default: () => ['a'] },
+  user: { type: Object, default: () => ({ name: 'Arash' }) },
+  title: String
+})`, { defaultsStyle: 'withDefaults' })
+
+    expect(converted).toBe(`const props = withDefaults(defineProps<{
+  count?: number
+  label?: string
+  items?: string[]
+  user?: Record<string, any>
+  title?: string
+}>(), {
+  count: 5,
+  label: 'x',
+  items: () => ['a'],
+  user: () => ({ name: 'Arash' })
+})`)
+  })
+})
+
+describe('convertDefineProps', () => {
+  it('should fall back to withDefaults() for defaults computed from other props', () => {
+    const source = `const props = defineProps({
+  size: { type: Number, default: 1 },
+  double: { type: Number, default: (props) => props.size * 2 },
+})`
+    const result = convertDefineProps(source)
+
+    expect(result?.destructured).toBe(false)
+    expect(result?.code).toBe(`const props = withDefaults(defineProps<{
+  size?: number
+  double?: number
+}>(), {
+  size: 1,
+  double: (props) => props.size * 2
+})`)
+    expect(result?.issues).toEqual([{
+      message: 'The default of \'double\' can\'t be a destructure default: it is computed from other props. The props are declared with withDefaults() instead.',
+      start: source.indexOf('double:'),
+      end: source.indexOf(' },\n})') + 2,
+      severity: 'warning',
+    }])
+  })
+
+  it('should keep the factory of an untyped prop returning a variable', () => {
+    const result = convertDefineProps('defineProps({ handler: { default: () => onSave } })')
+
+    expect(result?.code).toContain('handler: () => onSave')
+    expect(result?.issues.map(issue => issue.message)).toEqual([
+      expect.stringContaining('typed as \'any\''),
+      expect.stringContaining('the prop has no type'),
+    ])
+  })
+
+  it('should infer the type of props without type from their default', () => {
+    const source = `defineProps({
+  size: { default: 'md' },
+  count: { default: -1 },
+  items: { default: () => [] },
+  tags: { default: () => ['a', 'b'] },
+  user: { default: () => ({ name: 'Arash', admin: false, 'data-id': 1 }) },
+  label: { type: String, default: 'x' },
+  config: {},
+  list: Array,
+})`
+    const result = convertDefineProps(source)
+
+    expect(result?.code).toContain(`defineProps<{
+  size?: string
+  count?: number
+  items?: unknown[]
+  tags?: string[]
+  user?: {
+    name: string
+    admin: boolean
+    'data-id': number
+  }
+  label?: string
+  config?: any
+  list?: any[]
+}>()`)
+    expect(result?.issues).toEqual([{
+      message: 'Prop \'config\' has no type: it is typed as \'any\'. Declare its type, with a PropType<T> cast if needed.',
+      start: source.indexOf('config'),
+      end: source.indexOf('config: {}') + 10,
+      severity: 'warning',
+    }, {
+      message: 'Prop \'list\' is typed as \'any[]\', its constructor doesn\'t tell more. Declare its type with a PropType<T> cast.',
+      start: source.indexOf('list'),
+      end: source.indexOf('list: Array') + 11,
+      severity: 'warning',
+    }])
+  })
+
+  it('should refuse definitions held by variables it can\'t resolve', () => {
+    const source = 'defineProps({ size: sizeProp, label: String })'
+    const result = convertDefineProps(source)
+
+    expect(result?.code).toBe(source)
+    expect(result?.issues).toEqual([expect.objectContaining({
+      start: source.indexOf('size'),
+      end: source.indexOf(', label'),
+      severity: 'error',
+    })])
+  })
+})
+
+describe('supportsPropsDestructure', () => {
+  it('should require Vue 3.5 or newer', () => {
+    expect(supportsPropsDestructure('3.4')).toBe(false)
+    expect(supportsPropsDestructure('3.5')).toBe(true)
+    expect(supportsPropsDestructure(undefined)).toBe(true)
+  })
+})
+
+describe('getComponentName', () => {
+  it('should derive a PascalCase name from the file name', () => {
+    expect(getComponentName('/src/components/base-button.vue')).toBe('BaseButton')
+    expect(getComponentName('C:\\src\\UserCard.vue')).toBe('UserCard')
+    expect(getComponentName('/src/components/date-picker/index.vue')).toBe('DatePicker')
+  })
+})
+
+describe('matchesGlob', () => {
+  it('should match directories with ** and alternatives with braces', () => {
+    expect(matchesGlob('src/legacy/Button.vue', 'src/legacy/**')).toBe(true)
+    expect(matchesGlob('legacy/Button.vue', '**/legacy/*.vue')).toBe(true)
+    expect(matchesGlob('src/legacy/deep/Button.vue', '**/legacy/*.vue')).toBe(false)
+    expect(matchesGlob('src/Button.ts', 'src/*.{vue,ts}')).toBe(true)
+  })
 })
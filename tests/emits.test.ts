@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest'
+import { convertDefineEmits, convertEmits } from '../src/core/emits'
+import { convertSfc } from '../src/core/sfc'
+import * as EmitFixtures from './fixtures/emits'
+
+describe('convertEmits', () => {
+  for (const [name, emit] of Object.entries(EmitFixtures)) {
+    it(`should correctly convert "${name}"`, () => {
+      expect(convertEmits(emit.js)).toBe(emit.ts)
+    })
+  }
+
+  it('should emit call signatures with the "callSignature" declaration', () => {
+    const converted = convertEmits(`const emit = defineEmits({
+  'update:modelValue': (value: string) => true,
+  close: null
+})`, { emitsDeclaration: 'callSignature' })
+
+    expect(converted).toBe(`const emit = defineEmits<{
+  (e: 'update:modelValue', value: string): void
+  (e: 'close', ...args: any[]): void
+}>()`)
+  })
+
+  it('should warn about dropped validators', () => {
+    const result = convertDefineEmits('defineEmits({ change: (id: number) => id > 0 })')
+
+    expect(result?.issues).toHaveLength(1)
+    expect(result?.issues[0].severity).toBe('warning')
+    expect(result?.issues[0].message).toContain('\'change\' is dropped')
+  })
+
+  it('should leave calls with dynamic event names unchanged', () => {
+    const script = 'const emit = defineEmits([...events, \'close\'])'
+    expect(convertEmits(script)).toBe(script)
+  })
+})
+
+describe('convertSfc with defineEmits', () => {
+  it('should convert props and emits together', () => {
+    const result = convertSfc(`<script setup lang="ts">
+defineProps({ title: String })
+const emit = defineEmits(['close'])
+</script>
+`)
+
+    expect(result?.converted).toBe(2)
+    expect(result?.code).toContain('defineEmits<{\n  close: [...args: any[]]\n}>()')
+  })
+})
@@ -0,0 +1,150 @@
+import { Linter, RuleTester } from 'eslint'
+import tseslint from 'typescript-eslint'
+import vueParser from 'vue-eslint-parser'
+import { describe, it, expect } from 'vitest'
+import plugin from '../src/eslint'
+
+const linter = new Linter({ configType: 'flat' })
+
+const config: Linter.Config[] = [{
+  files: ['**/*.ts'],
+  languageOptions: { parser: tseslint.parser as Linter.Parser },
+  plugins: { 'vue-prop-konverter': plugin },
+  rules: { 'vue-prop-konverter/prefer-type-props': ['error', { defaultsStyle: 'destructure' }] },
+}]
+
+describe('prefer-type-props', () => {
+  it('should report object-style defineProps and fix them with their usages', () => {
+    const source = `const props = defineProps({ count: { type: Number, default: 1 } })
+console.log(props.count)
+`
+    const messages = linter.verify(source, config, 'Counter.ts')
+    expect(messages.map(message => [message.messageId, message.line])).toEqual([['preferTypeProps', 1]])
+
+    expect(linter.verifyAndFix(source, config, 'Counter.ts').output).toBe(`const { count = 1 } = defineProps<{
+  count?: number
+}>()
+console.log(count)
+`)
+  })
+
+  it('should report conflicts without a fix', () => {
+    const source = `const count = ref(0)
+const props = defineProps({ count: { type: Number, default: 0 } })
+`
+    const [message] = linter.verify(source, config, 'Counter.ts')
+
+    expect(message.messageId).toBe('conflict')
+    expect(message.fix).toBeUndefined()
+  })
+
+  it('should ignore type-based and disabled declarations', () => {
+    const source = `// vue-prop-konverter-disable-next-line
+const props = defineProps({ count: Number })
+defineEmits<{ change: [] }>()
+`
+    expect(linter.verify(source, config, 'Counter.ts')).toEqual([])
+  })
+})
+
+describe('prefer-type-props with RuleTester', () => {
+  RuleTester.describe = describe
+  RuleTester.it = it
+  RuleTester.itOnly = it.only
+
+  const ruleTester = new RuleTester({ languageOptions: { parser: tseslint.parser as Linter.Parser } })
+
+  ruleTester.run('prefer-type-props', plugin.rules!['prefer-type-props'], {
+    valid: [
+      { code: 'export const answer = 42\n', filename: 'Answer.ts' },
+      {
+        code: `@Component({ name: 'Counter' })
+export class Counter {
+  @Prop() count = 0
+
+  setup() {
+    return defineProps({ count: Number })
+  }
+}
+`,
+        filename: 'Counter.ts',
+      },
+    ],
+    invalid: [
+      {
+        code: `const props = defineProps({ count: { type: Number, default: 1 } })
+console.log(props.count)
+`,
+        filename: 'Counter.ts',
+        options: [{ defaultsStyle: 'destructure' }],
+        errors: [{ messageId: 'preferTypeProps', line: 1, column: 1, endLine: 1, endColumn: 67 }],
+        output: `const { count = 1 } = defineProps<{
+  count?: number
+}>()
+console.log(count)
+`,
+      },
+      {
+        code: 'defineProps({ title: String })\n',
+        filename: 'Title.ts',
+        options: [{ format: { semicolons: true } }],
+        errors: [{ messageId: 'preferTypeProps' }],
+        output: `const props = defineProps<{
+  title?: string;
+}>();
+`,
+      },
+      {
+        code: `const count = ref(0)
+const props = defineProps({ count: { type: Number, default: 0 } })
+`,
+        filename: 'Counter.ts',
+        options: [{ defaultsStyle: 'destructure' }],
+        errors: [{ messageId: 'conflict', line: 2 }],
+        output: null,
+      },
+    ],
+  })
+
+  const vueRuleTester = new RuleTester({
+    languageOptions: { parser: vueParser, parserOptions: { parser: tseslint.parser } },
+  })
+
+  // The offsets of the <script setup> block are mapped to the whole file, the template usages are fixed too
+  vueRuleTester.run('prefer-type-props in .vue files', plugin.rules!['prefer-type-props'], {
+    valid: [
+      {
+        code: `<script setup lang="ts">
+defineProps<{ title?: string }>()
+</script>
+`,
+        filename: 'Title.vue',
+      },
+    ],
+    invalid: [
+      {
+        code: `<template>
+  <span>{{ props.count }}</span>
+</template>
+
+<script setup lang="ts">
+const props = defineProps({ count: { type: Number, default: 1 } })
+</script>
+`,
+        filename: 'Counter.vue',
+        options: [{ defaultsStyle: 'destructure' }],
+        errors: [{ messageId: 'preferTypeProps', line: 6, column: 1, endLine: 6, endColumn: 67 }],
+        output: `<template>
+  <span>{{ count }}</span>
+</template>
+
+<script setup lang="ts">
+const { count = 1 } = defineProps<{
+  count?: number
+}>()
+</script>
+`,
+      },
+    ],
+  })
+})
@@ -0,0 +1,56 @@
+export const EmitsArray = {
+  js: 'const emit = defineEmits([\'update:modelValue\', \'close\'])',
+  ts: `const emit = defineEmits<{
+  'update:modelValue': [...args: any[]]
+  close: [...args: any[]]
+}>()`,
+}
+
+export const EmitsWithValidators = {
+  js: `const emit = defineEmits({
+  close: null,
+  submit: (email: string, remember?: boolean) => true,
+  select(id: number) {
+    return true
+  },
+  move: (...offsets: number[]) => true,
+  change: value => true
+})`,
+  ts: `const emit = defineEmits<{
+  close: [...args: any[]]
+  submit: [email: string, remember?: boolean]
+  select: [id: number]
+  move: [...offsets: number[]]
+  change: [value: any]
+}>()`,
+}
+
+export const EmitsWithObjectPayload = {
+  js: `const emit = defineEmits({
+  save: (payload: {
+    id: number, // the saved row
+    values: Record<string, string>
+  }) => true
+})`,
+  ts: `const emit = defineEmits<{
+  save: [payload: {
+    id: number, // the saved row
+    values: Record<string, string>
+  }]
+}>()`,
+}
+
+export const EmitsInNestedBlock = {
+  js: `export const Story = {
+  setup() {
+    defineEmits(['close'])
+  }
+}`,
+  ts: `export const Story = {
+  setup() {
+    defineEmits<{
+      close: [...args: any[]]
+    }>()
+  }
+}`,
+}
@@ -28,13 +28,91 @@ export const PropsWithComments = {
   // another comment
   count?: number
   /**
-     * List of component names to include in auto-registration. If unset or empty, all components will be included.
-     * @default []
-     */
+   * List of component names to include in auto-registration. If unset or empty, all components will be included.
+   * @default []
+   */
   complicated?: any[]
 }>()`,
 }
 
+export const PropsWithTrailingComments = {
+  js: `defineProps({
+  title: String, // shown in the header
+  size: {
+    type: String as PropType<'sm' | 'md'>, /* px */
+    default: 'md'
+  }, // defaults to medium
+  /**
+   * Called on close.
+   *   Indented lines are kept.
+   */
+  onClose: Function
+})`,
+  ts: `const {
+  title,
+  size = 'md',
+  onClose
+} = defineProps<{
+  title?: string // shown in the header
+  size?: 'sm' | 'md' // defaults to medium
+  /**
+   * Called on close.
+   *   Indented lines are kept.
+   */
+  onClose?: (...args: any[]) => any
+}>()`,
+}
+
+export const PropsWithSpreads = {
+  js: `const KEY = 'modelValue'
+const baseProps = {
+  size: { type: String, default: 'md' },
+  disabled: Boolean,
+} as const
+const props = defineProps({
+  ...baseProps,
+  [KEY]: String,
+  label: String,
+})`,
+  ts: `const KEY = 'modelValue'
+type BaseProps = {
+  size?: string
+  disabled?: boolean
+}
+
+const {
+  size = 'md',
+  disabled,
+  modelValue,
+  label
+} = defineProps<BaseProps & {
+  modelValue?: string
+  label?: string
+}>()`,
+}
+
+export const PropsWithSharedDefinitions = {
+  js: `const sizeProp = {
+  type: String as PropType<'sm' | 'md'>,
+  default: 'md',
+}
+const props = defineProps({
+  size: sizeProp,
+  label: String,
+})`,
+  ts: `const sizeProp = {
+  type: String as PropType<'sm' | 'md'>,
+  default: 'md',
+}
+const {
+  size = 'md',
+  label
+} = defineProps<{
+  size?: 'sm' | 'md'
+  label?: string
+}>()`,
+}
+
 export const PropsWithObjectType = {
   js: `const props = defineProps({
   data: {
@@ -43,10 +121,7 @@ export const PropsWithObjectType = {
   },
 })`,
   ts: `const { data = { a: 1, b: 'x' } } = defineProps<{
-  data?: {
-    a: number;
-    b: string;
-  }
+  data?: { a: number, b: string }
 }>()`,
 }
 
@@ -99,12 +174,7 @@ export const PropsWithNestedObjectType = {
   }
 })`,
   ts: `const props = defineProps<{
-  options?: {
-    a: number;
-    nested: {
-      x: string;
-    };
-  }
+  options?: { a: number; nested: { x: string } }
 }>()`,
 }
 
@@ -131,16 +201,65 @@ export const PropsWithStringLiteralKey = {
   "some key here": Boolean,
 })`,
   ts: `const {
-  weirdKey = 'test',
-  superValue,
-  someKeyHere
+  'weird-key': weirdKey = 'test',
+  'super🔥 value': superValue,
+  'some key here': someKeyHere
 } = defineProps<{
-  weirdKey?: string
-  superValue?: number
-  someKeyHere?: boolean
+  'weird-key'?: string
+  'super🔥 value'?: number
+  'some key here'?: boolean
+}>()`,
+}
+
+export const PropsWithIdentifierStringKeys = {
+  js: `defineProps({
+  'my_value': String,
+  'aria-Label': { type: String, required: true },
+  'class': String
+})`,
+  ts: `const props = defineProps<{
+  my_value?: string
+  'aria-Label': string
+  class?: string
 }>()`,
 }
 
+export const PropsInMultipleDeclarations = {
+  js: `import { h } from 'vue'
+
+const props = defineProps({
+  title: String
+})
+
+export const Story = {
+  setup() {
+    const { count } = defineProps({
+      count: { type: Number, default: 1 },
+      label: { type: String, required: true }
+    })
+    return () => h('div', count)
+  }
+}`,
+  ts: `import { h } from 'vue'
+
+const props = defineProps<{
+  title?: string
+}>()
+
+export const Story = {
+  setup() {
+    const {
+      count = 1,
+      label
+    } = defineProps<{
+      count?: number
+      label: string
+    }>()
+    return () => h('div', count)
+  }
+}`,
+}
+
 // TODO
 // export const PropsWithNumericKeys = {
 //   js: `defineProps({
@@ -189,3 +308,132 @@ export const PropsWithManyLongProps = {
   meta?: Record<string, any>
 }>()`,
 }
+
+export const PropsWithValidators = {
+  js: `defineProps({
+  size: {
+    type: String,
+    default: 'md',
+    validator: (value: string) => ['sm', 'md', 'lg'].includes(value)
+  },
+  level: {
+    type: Number,
+    validator(value) {
+      return [1, 2, 3].includes(value)
+    }
+  },
+  // must be positive
+  count: {
+    type: Number,
+    required: true,
+    validator: value => value > 0
+  },
+  step: { type: Number, validator: isStep },
+  ratio: { type: Number, validator: between(0, 1) }
+})`,
+  ts: `const {
+  size = 'md',
+  level,
+  count,
+  step,
+  ratio
+} = defineProps<{
+  size?: 'sm' | 'md' | 'lg'
+  level?: 1 | 2 | 3
+  // must be positive
+  // TODO validator: value => value > 0
+  count: number
+  // TODO validator: isStep
+  step?: number
+  // TODO validator: between(0, 1)
+  ratio?: number
+}>()`,
+}
+
+export const PropsWithMultipleConstructors = {
+  js: `defineProps({
+  value: [String, Number],
+  nullable: { type: [String, null], required: true },
+  anything: null,
+  handler: [Function, String],
+  typed: { type: [String, Object] as PropType<string | Config> }
+})`,
+  ts: `const props = defineProps<{
+  value?: string | number
+  nullable: string | null
+  anything?: unknown
+  handler?: ((...args: any[]) => any) | string
+  typed?: string | Config
+}>()`,
+}
+
+export const PropsWithBuiltinAndClassConstructors = {
+  js: `defineProps({
+  created: Date,
+  id: { type: Symbol, required: true },
+  big: BigInt,
+  pending: Promise,
+  user: { type: User, required: true },
+  account: Models.Account
+})`,
+  ts: `const props = defineProps<{
+  created?: Date
+  id: symbol
+  big?: bigint
+  pending?: Promise<unknown>
+  user: User
+  account?: Models.Account
+}>()`,
+}
+
+export const PropsWithSideEffectDefaults = {
+  js: `const props = defineProps({
+  id: { type: Number, default: () => nextId++ },
+  config: { type: Object, default: () => ({ created: new Date(), retries: 3 }) },
+  labels: { type: Array, default: () => ({ 0: 'first', 1: 'second' }) },
+  options: { type: Object, default: () => ({ 'data-id': 'x', timeout: undefined }) },
+  user: { type: Object, default: () => ({ get name() { return fetchName() } }) },
+})`,
+  ts: `const {
+  id = nextId++,
+  config = { created: new Date(), retries: 3 },
+  labels = ['first', 'second'],
+  options = { 'data-id': 'x', timeout: undefined },
+  user = { get name() { return fetchName() } }
+} = defineProps<{
+  id?: number
+  config?: Record<string, any>
+  labels?: any[]
+  options?: Record<string, any>
+  user?: Record<string, any>
+}>()`,
+}
+
+export const PropsWithFactoryDefaults = {
+  js: `const props = defineProps({
+  cache: { type: Object as PropType<Map<string, number>>, default: () => new Map() },
+  id: { type: String, default: () => createId() },
+  items: { type: Array, default: () => { return [] } },
+  onClose: { type: Function as PropType<() => void>, default: () => {} },
+  format: { type: [Function, String] as PropType<((value: number) => string) | string>, default: (value) => value.toFixed(2) },
+  steps: { type: Array as PropType<number[]>, default() { return [1, 2] } },
+  label: { default() { return 'none' } },
+})`,
+  ts: `const {
+  cache = new Map(),
+  id = createId(),
+  items = [],
+  onClose = () => {},
+  format = (value) => value.toFixed(2),
+  steps = [1, 2],
+  label = 'none'
+} = defineProps<{
+  cache?: Map<string, number>
+  id?: string
+  items?: any[]
+  onClose?: () => void
+  format?: ((value: number) => string) | string
+  steps?: number[]
+  label?: string
+}>()`,
+}
@@ -0,0 +1,84 @@
+export const TypedProps = {
+  ts: `const props = defineProps<{
+  /** The title */
+  title: string
+  count?: number
+  size?: 'sm' | 'lg'
+  value?: string | number
+}>()`,
+  js: `import type { PropType } from 'vue'
+
+const props = defineProps({
+  /** The title */
+  title: {
+    type: String,
+    required: true
+  },
+  count: Number,
+  size: String as PropType<'sm' | 'lg'>,
+  value: [String, Number]
+})`,
+}
+
+export const TypedPropsWithDestructureDefaults = {
+  ts: `import { computed } from 'vue'
+
+const { count = 0, tags = ['a'], options = { dense: true } } = defineProps<{
+  count?: number
+  tags?: string[]
+  options?: Record<string, boolean>
+}>()
+const doubled = computed(() => count * 2)
+const state = { tags }`,
+  js: `import { computed } from 'vue'
+import type { PropType } from 'vue'
+
+const props = defineProps({
+  count: {
+    type: Number,
+    default: 0
+  },
+  tags: {
+    type: Array as PropType<string[]>,
+    default: () => ['a']
+  },
+  options: {
+    type: Object as PropType<Record<string, boolean>>,
+    default: () => ({ dense: true })
+  }
+})
+const doubled = computed(() => props.count * 2)
+const state = { tags: props.tags }`,
+}
+
+export const TypedPropsWithDefaults = {
+  ts: `import type { PropType } from 'vue'
+
+interface Props {
+  msg?: string
+  labels?: string[]
+  onClose?: () => void
+}
+const props = withDefaults(defineProps<Props>(), {
+  msg: 'hello',
+  labels: () => ['one', 'two']
+})`,
+  js: `import type { PropType } from 'vue'
+
+interface Props {
+  msg?: string
+  labels?: string[]
+  onClose?: () => void
+}
+const props = defineProps({
+  msg: {
+    type: String,
+    default: 'hello'
+  },
+  labels: {
+    type: Array as PropType<string[]>,
+    default: () => ['one', 'two']
+  },
+  onClose: Function as PropType<() => void>
+})`,
+}
@@ -0,0 +1,110 @@
+export const SfcWithPropsUsages = {
+  vue: `<script setup lang="ts">
+import { computed } from 'vue'
+
+const props = defineProps({
+  title: String,
+  count: { type: Number, default: 0 }
+})
+
+const double = computed(() => props.count * 2)
+</script>
+
+<template>
+  <h1>{{ props.title }}</h1>
+</template>
+`,
+  converted: `<script setup lang="ts">
+import { computed } from 'vue'
+
+const {
+  title,
+  count = 0
+} = defineProps<{
+  title?: string
+  count?: number
+}>()
+
+const double = computed(() => count * 2)
+</script>
+
+<template>
+  <h1>{{ title }}</h1>
+</template>
+`,
+}
+
+export const SfcWithoutDefaults = {
+  vue: `<script lang="ts" setup>
+const props = defineProps({
+  title: String
+})
+</script>
+`,
+  converted: `<script lang="ts" setup>
+const props = defineProps<{
+  title?: string
+}>()
+</script>
+`,
+}
+
+export const SfcAlreadyConverted = {
+  vue: `<script setup lang="ts">
+const { title } = defineProps<{ title?: string }>()
+</script>
+`,
+  converted: `<script setup lang="ts">
+const { title } = defineProps<{ title?: string }>()
+</script>
+`,
+}
+
+export const SfcWithScopedUsages = {
+  vue: `<script setup lang="ts">
+const p = defineProps({
+  title: String,
+  'weird-key': { type: String, default: 'x' },
+  count: { type: Number, default: 0 }
+})
+
+const label = 'props.title in a string' // p.title in a comment
+const total = computed(() => p.count * 2 + p['weird-key'].length)
+function format(props: { title: string }) {
+  return props.title
+}
+</script>
+
+<template>
+  <div v-for="item in p.count" :key="item" @click="select(p.title); emit('done')">
+    {{ p.title }} {{ item }}
+    <Comp #default="{ row }" :size="p.count">{{ row + p.title }}</Comp>
+  </div>
+</template>
+`,
+  converted: `<script setup lang="ts">
+const {
+  title,
+  'weird-key': weirdKey = 'x',
+  count = 0
+} = defineProps<{
+  title?: string
+  'weird-key'?: string
+  count?: number
+}>()
+
+const label = 'props.title in a string' // p.title in a comment
+const total = computed(() => count * 2 + weirdKey.length)
+function format(props: { title: string }) {
+  return props.title
+}
+</script>
+
+<template>
+  <div v-for="item in count" :key="item" @click="select(title); emit('done')">
+    {{ title }} {{ item }}
+    <Comp #default="{ row }" :size="count">{{ row + title }}</Comp>
+  </div>
+</template>
+`,
+}
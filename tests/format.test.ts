@@ -0,0 +1,110 @@
+import { mkdtempSync, mkdirSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { describe, it, expect } from 'vitest'
+import { convertProps } from '../src/core/converter'
+import { formatCode } from '../src/core/format'
+import { getEditorConfigFormat } from '../src/shared'
+
+const source = `const props = defineProps({
+  size: { type: String, default: "md", validator: v => ["sm", "md"].includes(v) },
+  items: { type: Array as PropType<Array<{ id: number; name: string }>>, default: () => [] },
+  title: String,
+})`
+
+describe('convertProps with format options', () => {
+  it('should generate code in the default style, and keep the code copied from the source as written', () => {
+    expect(convertProps(source)).toBe(`const {
+  size = "md",
+  items = [],
+  title
+} = defineProps<{
+  size?: "sm" | "md"
+  items?: Array<{ id: number; name: string }>
+  title?: string
+}>()`)
+  })
+
+  it('should use tabs, semicolons, double quotes and trailing commas', () => {
+    const result = convertProps(source, { format: { indent: '\t', semicolons: true, quotes: 'double', trailingCommas: true } })
+
+    expect(result).toBe(`const {
+\tsize = "md",
+\titems = [],
+\ttitle,
+} = defineProps<{
+\tsize?: "sm" | "md";
+\titems?: Array<{ id: number; name: string }>;
+\ttitle?: string;
+}>();`)
+  })
+
+  it('should only restyle the generated code around copied validators', () => {
+    const result = convertProps(`const props = defineProps({
+  count: {
+    type: Number,
+    validator: (value: number) => {
+      const limit = 'max'
+      return value < limits[limit]
+    }
+  }
+})`, { validatorFallback: 'runtime', format: { indent: '\t', semicolons: true, quotes: 'double' } })
+
+    expect(result).toBe(`const props = defineProps<{
+\tcount?: number;
+}>();
+
+watchEffect(() => {
+\tif (props.count !== undefined && !((value: number) => {
+\t\tconst limit = 'max'
+\t\treturn value < limits[limit]
+\t})(props.count)) console.warn("Invalid prop: custom validator check failed for prop \\"count\\".");
+});`)
+  })
+
+  it('should keep destructures up to the multiline threshold on one line', () => {
+    const result = convertProps('defineProps({ a: { type: Number, default: 1 }, b: { type: String, default: \'x\' } })', {
+      format: { multilineThreshold: 2 },
+    })
+
+    expect(result?.split('\n')[0]).toBe('const { a = 1, b = \'x\' } = defineProps<{')
+  })
+
+  it('should format the object types inferred from defaults like the props type', () => {
+    const result = convertProps('defineProps({ user: { default: () => ({ name: \'a\', address: { city: \'x\' } }) } })', {
+      format: { indent: '\t', semicolons: true },
+    })
+
+    expect(result).toBe(`const { user = { name: 'a', address: { city: 'x' } } } = defineProps<{
+\tuser?: {
+\t\tname: string;
+\t\taddress: {
+\t\t\tcity: string;
+\t\t};
+\t};
+}>();`)
+  })
+})
+
+describe('formatCode', () => {
+  it('should leave template literals and single line type literals alone', () => {
+    const code = 'const a: { x: number; y: string } = {\n  text: `line\n  next`,\n}'
+    expect(formatCode(code, { indent: '    ' })).toBe('const a: { x: number; y: string } = {\n    text: `line\n  next`\n}')
+  })
+
+  it('should not add a semicolon after an expression inserted into a statement', () => {
+    expect(formatCode('defineEmits<{\n  close: []\n}>()', { semicolons: true }, 'expression')).toBe('defineEmits<{\n  close: [];\n}>()')
+  })
+})
+
+describe('getEditorConfigFormat', () => {
+  it('should read the indentation and quotes of the matching sections', () => {
+    const root = mkdtempSync(join(tmpdir(), 'editorconfig-'))
+    mkdirSync(join(root, 'src'))
+    writeFileSync(join(root, '.editorconfig'), 'root = true\n\n[*]\nindent_style = space\nindent_size = 4\n\n[*.{vue,ts}]\nquote_type = double\n')
+    writeFileSync(join(root, 'src', '.editorconfig'), '[src/legacy/**]\nindent_style = tab\n')
+
+    expect(getEditorConfigFormat(join(root, 'src', 'Button.vue'))).toEqual({ indent: '    ', quotes: 'double' })
+    expect(getEditorConfigFormat(join(root, 'src', 'main.js'))).toEqual({ indent: '    ' })
+  })
+})
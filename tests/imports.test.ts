@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest'
+import { convertSfc } from '../src/core/sfc'
+
+describe('convertSfc imports', () => {
+  it('should turn value imports only used as types into type imports and drop PropType', () => {
+    const source = `<script setup lang="ts">
+import { ref, type PropType } from 'vue'
+import { User, createUser } from './models'
+import Settings from './settings'
+
+const props = defineProps({
+  user: { type: User, required: true },
+  settings: Object as PropType<Settings>
+})
+const copy = createUser()
+const count = ref(0)
+</script>
+`
+    const result = convertSfc(source)
+
+    expect(result?.code).toContain(`import { ref } from 'vue'
+import { type User, createUser } from './models'
+import type Settings from './settings'
+`)
+  })
+
+  it('should keep value imports read by the template', () => {
+    const source = `<script setup lang="ts">
+import type { PropType } from 'vue'
+import { Size } from './enums'
+
+defineProps({ size: String as PropType<Size> })
+</script>
+
+<template>
+  <button :class="{ large: size === Size.Large }" />
+</template>
+`
+    const result = convertSfc(source)
+
+    expect(result?.code).toContain('import { Size } from \'./enums\'')
+    expect(result?.code).toContain('size?: Size')
+  })
+
+  it('should remove a PropType type import once unused', () => {
+    const source = `<script setup lang="ts">
+import type { PropType } from 'vue'
+
+defineProps({ tags: Array as PropType<string[]> })
+</script>
+`
+    expect(convertSfc(source)?.code).toBe(`<script setup lang="ts">
+const props = defineProps<{
+  tags?: string[]
+}>()
+</script>
+`)
+  })
+
+  it('should import the types of vue used without import', () => {
+    const source = `<script setup lang="ts">
+import type { PropType } from 'vue'
+
+defineProps({ icon: Object as PropType<Component>, node: Object as PropType<VNode> })
+</script>
+`
+    const result = convertSfc(source)
+
+    expect(result?.code).toBe(`<script setup lang="ts">
+import type { Component, VNode } from 'vue'
+
+const props = defineProps<{
+  icon?: Component
+  node?: VNode
+}>()
+</script>
+`)
+    expect(result?.issues).toEqual([])
+  })
+
+  it('should import watchEffect for the runtime validator checks', () => {
+    const source = `<script setup lang="ts">
+import { ref } from 'vue'
+
+defineProps({ count: { type: Number, validator: (value: number) => value > 0 } })
+</script>
+`
+    expect(convertSfc(source, { validatorFallback: 'runtime' })?.code).toContain(`import { ref } from 'vue'
+import { watchEffect } from 'vue'
+`)
+  })
+
+  it('should warn about types Vue can\'t resolve', () => {
+    const source = `<script setup lang="ts" generic="T">
+import type { PropType } from 'vue'
+import Legacy from './legacy.js'
+
+defineProps({
+  legacy: Object as PropType<Legacy>,
+  missing: Object as PropType<Missing>,
+  item: Object as PropType<T>,
+  kind: String as PropType<T extends string ? 'text' : 'other'>
+})
+</script>
+`
+    const messages = convertSfc(source)?.issues.map(issue => issue.message)
+
+    expect(messages).toHaveLength(3)
+    expect(messages?.[0]).toContain('untyped JavaScript module \'./legacy.js\'')
+    expect(messages?.[1]).toContain('\'Missing\' is not imported or declared')
+    expect(messages?.[2]).toContain('conditional type')
+  })
+})
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest'
+import { applyTextChanges, convertModelAt, findSfcModelPairs } from '../src/core/sfc'
+import { supportsDefineModel } from '../src/shared'
+
+/**
+ * Converts the first v-model pair of an SFC.
+ *
+ * @param source The SFC source
+ * @returns The converted source, or `undefined` if there is no pair
+ */
+function convertFirstModel(source: string): string | undefined {
+  const [pair] = findSfcModelPairs(source) ?? []
+  const result = pair && convertModelAt(source, pair.name)
+  return result ? applyTextChanges(source, result.changes) : undefined
+}
+
+describe('convertModelAt', () => {
+  it('should replace the pair and its computed getter/setter with defineModel()', () => {
+    const source = `<script setup lang="ts">
+import { computed } from 'vue'
+
+const props = defineProps({
+  modelValue: { type: String, required: true },
+  label: String
+})
+const emit = defineEmits(['update:modelValue', 'close'])
+
+const value = computed({
+  get: () => props.modelValue,
+  set: (v) => emit('update:modelValue', v)
+})
+
+function reset() {
+  emit('update:modelValue', '')
+  emit('close')
+}
+</script>
+
+<template>
+  <input :value="modelValue" @input="$emit('update:modelValue', $event.target.value)">
+  <span>{{ props.modelValue }} {{ label }}</span>
+</template>
+`
+
+    expect(convertFirstModel(source)).toBe(`<script setup lang="ts">
+import { computed } from 'vue'
+
+const props = defineProps({
+  label: String
+})
+const emit = defineEmits(['close'])
+
+const value = defineModel<string>({ required: true })
+
+function reset() {
+  value.value = ''
+  emit('close')
+}
+</script>
+
+<template>
+  <input :value="value" @input="value = $event.target.value">
+  <span>{{ value }} {{ label }}</span>
+</template>
+`)
+  })
+
+  it('should declare a named model in place of the emptied declarations', () => {
+    const source = `<script setup lang="ts">
+const props = defineProps({
+  open: { type: Boolean, default: false }
+})
+const emit = defineEmits(['update:open'])
+const toggle = () => emit('update:open', !props.open)
+</script>
+`
+
+    expect(convertFirstModel(source)).toBe(`<script setup lang="ts">
+const open = defineModel<boolean>('open', { default: false })
+const toggle = () => open.value = !open.value
+</script>
+`)
+  })
+
+  it('should only detect props with a matching update event', () => {
+    const source = `<script setup lang="ts">
+defineProps({ title: String, 'model-value': Number })
+defineEmits({ 'update:modelValue': (value: number) => true })
+</script>
+`
+    expect(findSfcModelPairs(source)?.map(pair => pair.name)).toEqual(['model-value'])
+  })
+
+  it('should report the props object used as a whole', () => {
+    const source = `<script setup lang="ts">
+import { toRefs } from 'vue'
+const props = defineProps({ modelValue: String })
+const emit = defineEmits(['update:modelValue'])
+const refs = toRefs(props)
+</script>
+`
+    const result = convertModelAt(source, 'modelValue')
+
+    expect(result?.changes).toEqual([])
+    expect(result?.issues[0].message).toContain('used as a whole')
+  })
+})
+
+describe('supportsDefineModel', () => {
+  it('should require Vue 3.4', () => {
+    expect(supportsDefineModel('3.3')).toBe(false)
+    expect(supportsDefineModel('3.4')).toBe(true)
+    expect(supportsDefineModel(undefined)).toBe(true)
+  })
+})
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest'
+import { analyzeComponent, createReport, formatReport } from '../src/core/report'
+
+const button = `<script setup lang="ts">
+const props = defineProps({
+  size: { type: String, validator: v => ['sm', 'md'].includes(v) },
+  label: { type: String, validator: v => v.length > 2 },
+  config: Object,
+  ...sharedProps,
+})
+const emit = defineEmits(['click'])
+</script>
+
+<template>
+  <button :class="props.size">{{ label }}</button>
+</template>
+`
+
+const card = `<script setup>
+defineProps({ title: String })
+</script>
+`
+
+const typed = `<script setup lang="ts">
+defineProps<{ title?: string }>()
+</script>
+`
+
+describe('analyzeComponent', () => {
+  it('should count the props and emits left to convert', () => {
+    expect(analyzeComponent('src/Button.vue', button)).toEqual({
+      path: 'src/Button.vue',
+      lang: 'ts',
+      objectProps: 3,
+      anyProps: 1,
+      validators: 1,
+      dynamicProps: 1,
+      runtimeEmits: 1,
+      templatePropsUsage: true,
+    })
+  })
+
+  it('should count the props of Options API components as pending', () => {
+    const legacy = `<script lang="ts">
+export default defineComponent({
+  props: {
+    size: { type: String, validator(value: string) { return ['sm', 'md'].includes(value) } },
+    config: Object,
+  },
+})
+</script>
+`
+    expect(analyzeComponent('src/Legacy.vue', legacy)).toMatchObject({ lang: 'ts', objectProps: 2, anyProps: 1, validators: 0 })
+    expect(analyzeComponent('src/Names.vue', '<script>\nexport default { props: [\'title\'] }\n</script>\n'))
+      .toMatchObject({ lang: 'js', objectProps: 1, anyProps: 1 })
+    expect(createReport([analyzeComponent('src/Legacy.vue', legacy)!]).totals.pending).toBe(1)
+  })
+
+  it('should skip SFCs without <script setup> or props', () => {
+    expect(analyzeComponent('src/Static.vue', '<script>\nexport default { name: \'Static\' }\n</script>\n')).toBeNull()
+  })
+})
+
+describe('createReport', () => {
+  it('should sum up the components per directory', () => {
+    const report = createReport([
+      analyzeComponent('src/ui/Button.vue', button),
+      analyzeComponent('src/Card.vue', card),
+      analyzeComponent('src/ui/Typed.vue', typed),
+    ].filter(component => component !== null))
+
+    expect(report.totals).toMatchObject({ components: 3, pending: 2, objectProps: 4, runtimeEmits: 1, templatePropsUsage: 1 })
+    expect(report.directories.map(directory => [directory.path, directory.components, directory.pending])).toEqual([
+      ['src', 1, 1],
+      ['src/ui', 2, 1],
+    ])
+    expect(report.components[0]).toMatchObject({ path: 'src/Card.vue', lang: 'js' })
+
+    const markdown = formatReport(report, 'markdown')
+    expect(markdown).toContain('1 of 3 component(s) are fully typed, 4 object-style prop(s) and 1 runtime defineEmits() left.')
+    expect(markdown).toContain('| `src/ui` | 2 | 1 | 3 | 1 | 1 | 1 | 1 | 1 |')
+    expect(markdown).toContain('| `src/ui/Button.vue` | 3 | 1 | 1 | 1 | 1 | yes |')
+    expect(JSON.parse(formatReport(report, 'json'))).toEqual(report)
+  })
+})
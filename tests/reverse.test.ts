@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest'
+import { revertProps } from '../src/core/reverse'
+import { convertSfc, revertSfc } from '../src/core/sfc'
+import * as ReverseFixtures from './fixtures/reverse'
+
+describe('revertProps', () => {
+  for (const [name, prop] of Object.entries(ReverseFixtures)) {
+    it(`should correctly revert "${name}"`, () => {
+      expect(revertProps(prop.ts)).toBe(prop.js)
+    })
+  }
+
+  it('should leave object-style defineProps unchanged', () => {
+    const script = 'const props = defineProps({ title: String })'
+    expect(revertProps(script)).toBe(script)
+  })
+})
+
+describe('revertSfc', () => {
+  it('should be the inverse of convertSfc', () => {
+    const source = `<script setup lang="ts">
+const props = defineProps({
+  title: {
+    type: String,
+    required: true
+  },
+  count: Number
+})
+</script>
+`
+    const converted = convertSfc(source)?.code ?? ''
+    expect(revertSfc(converted)?.code).toBe(source)
+  })
+
+  it('should only revert the declaration at the given offset', () => {
+    const source = `<script setup lang="ts">
+const props = defineProps<{ title: string }>()
+</script>
+`
+    expect(revertSfc(source, 0)?.converted).toBe(0)
+    expect(revertSfc(source, source.indexOf('defineProps'))?.converted).toBe(1)
+  })
+
+  it('should report props types that can\'t be resolved', () => {
+    const source = `<script setup lang="ts">
+import type { Props } from './types'
+const props = defineProps<Props>()
+</script>
+`
+    const result = revertSfc(source)
+
+    expect(result?.converted).toBe(0)
+    expect(result?.code).toBe(source)
+    expect(result?.issues[0].message).toContain('can\'t be resolved')
+  })
+
+  it('should report a \'props\' name clash when reverting destructured props', () => {
+    const source = `<script setup lang="ts">
+const props = 1
+const { title } = defineProps<{ title: string }>()
+</script>
+`
+    expect(revertSfc(source)?.issues[0].message).toContain('\'props\' is already declared')
+  })
+
+  it('should follow the format options, keeping the types and defaults as written', () => {
+    const source = `<script setup lang="ts">
+const { size = 'md' } = defineProps<{ size?: 'sm' | 'md', title: string }>()
+</script>
+`
+    const format = { indent: '\t', semicolons: true, quotes: 'double' as const, trailingCommas: true }
+
+    expect(revertSfc(source, undefined, { format })?.code).toBe(`<script setup lang="ts">
+import type { PropType } from "vue";
+
+const props = defineProps({
+\tsize: {
+\t\ttype: String as PropType<'sm' | 'md'>,
+\t\tdefault: 'md',
+\t},
+\ttitle: {
+\t\ttype: String,
+\t\trequired: true,
+\t},
+});
+</script>
+`)
+  })
+})
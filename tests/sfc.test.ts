@@ -0,0 +1,368 @@
+import { describe, it, expect } from 'vitest'
+import { applyTextChanges, convertOptionsProps, convertSfc } from '../src/core/sfc'
+import * as SfcFixtures from './fixtures/sfc'
+
+describe('convertSfc', () => {
+  for (const [name, sfc] of Object.entries(SfcFixtures)) {
+    it(`should correctly convert "${name}"`, () => {
+      const result = convertSfc(sfc.vue)
+      expect(result?.code).toBe(sfc.converted)
+    })
+  }
+
+  it('should skip SFCs without <script setup lang="ts">', () => {
+    expect(convertSfc('<script setup>\ndefineProps({ title: String })\n</script>\n')).toBeNull()
+  })
+
+  it('should keep props.xxx usages with withDefaults()', () => {
+    const result = convertSfc(SfcFixtures.SfcWithPropsUsages.vue, { defaultsStyle: 'withDefaults' })
+    expect(result?.code).toContain('const props = withDefaults(defineProps<{')
+    expect(result?.code).toContain('computed(() => props.count * 2)')
+    expect(result?.code).toContain('{{ props.title }}')
+  })
+
+  it('should report conflicts instead of producing broken code', () => {
+    const source = `<script setup lang="ts">
+import { toRefs } from 'vue'
+const props = defineProps({
+  title: String,
+  count: { type: Number, default: 0 }
+})
+const refs = toRefs(props)
+function total() {
+  const count = 1
+  return props.count + count
+}
+</script>
+
+<template>
+  <div v-for="title in list">{{ props.title }}</div>
+</template>
+`
+    const result = convertSfc(source)
+    const conflicts = result?.issues.map(issue => source.slice(issue.start, issue.end))
+
+    expect(result?.converted).toBe(0)
+    expect(result?.code).toBe(source)
+    expect(conflicts).toEqual(['props', 'props.count', 'props.title'])
+  })
+
+  it('should report locals that the destructured props would redeclare', () => {
+    const source = `<script setup lang="ts">
+const count = ref(0)
+const props = defineProps({ count: { type: Number, default: 0 } })
+</script>
+`
+    const result = convertSfc(source)
+
+    expect(result?.converted).toBe(0)
+    expect(result?.issues).toHaveLength(1)
+    expect(result?.issues[0].message).toContain('\'count\' is already declared')
+  })
+
+  it('should detect the script language from the lang attribute, not from comments', () => {
+    const source = '<script setup>\n// <script setup lang="ts">\ndefineProps({ title: String })\n</script>\n'
+    expect(convertSfc(source)).toBeNull()
+  })
+
+  it('should convert <script setup lang="tsx"> blocks', () => {
+    const source = `<script setup lang="tsx">
+const props = defineProps({ title: String, count: { type: Number, default: 0 } })
+const render = () => <div>{props.title} {props.count}</div>
+</script>
+`
+    const result = convertSfc(source)
+
+    expect(result?.converted).toBe(1)
+    expect(result?.code).toContain('const render = () => <div>{title} {count}</div>')
+  })
+
+  it('should switch JavaScript blocks to TypeScript before converting them', () => {
+    const source = `<script>
+export default { inheritAttrs: false }
+</script>
+
+<script setup>
+const props = defineProps({ title: String })
+</script>
+`
+    const result = convertSfc(source, { javascript: 'typescript' })
+
+    expect(result?.code).toBe(`<script lang="ts">
+export default { inheritAttrs: false }
+</script>
+
+<script lang="ts" setup>
+const props = defineProps<{
+  title?: string
+}>()
+</script>
+`)
+  })
+
+  it('should document the props of JavaScript blocks with a JSDoc typedef', () => {
+    const source = `<script setup lang="js">
+const props = defineProps({
+  /** The title */
+  title: { type: String, required: true },
+  size: { type: String, default: 'md', validator: v => ['sm', 'md'].includes(v) },
+  items: { type: Array, default: () => [] },
+})
+const emit = defineEmits(['close'])
+</script>
+`
+    const result = convertSfc(source, { javascript: 'jsdoc', componentName: 'Card' })
+
+    expect(result?.code).toBe(`<script setup lang="js">
+/**
+ * @typedef {object} CardProps
+ * @property {string} title The title
+ * @property {'sm' | 'md'} [size='md']
+ * @property {any[]} [items]
+ */
+${source.slice(source.indexOf('const props'))}`)
+
+    // Documented declarations are not reported again
+    expect(convertSfc(result?.code ?? '', { javascript: 'jsdoc' })?.converted).toBe(0)
+  })
+
+  it('should convert standalone TypeScript files as a whole script', () => {
+    const source = `const props = defineProps({ count: { type: Number, default: 1 } })
+console.log(props.count)
+`
+    expect(convertSfc(source, { fileType: 'ts' })?.code).toBe(`const { count = 1 } = defineProps<{
+  count?: number
+}>()
+console.log(count)
+`)
+  })
+
+  it('should keep declarations disabled with a comment', () => {
+    const source = `<script setup lang="ts">
+// vue-prop-konverter-disable-next-line
+const props = defineProps({ count: Number })
+const emit = defineEmits(['change'])
+</script>
+`
+    expect(convertSfc(source)?.code).toBe(`<script setup lang="ts">
+// vue-prop-konverter-disable-next-line
+const props = defineProps({ count: Number })
+const emit = defineEmits<{
+  change: [...args: any[]]
+}>()
+</script>
+`)
+  })
+})
+
+describe('convertSfc with spread props', () => {
+  it('should refuse the spread of an imported object, whose defaults and validators are unknown', () => {
+    const source = `<script setup lang="ts">
+import { sizeProps, type SizeProps } from './size'
+const props = defineProps({ ...sizeProps, label: { type: String, default: 'x' } })
+</script>
+`
+    const result = convertSfc(source)
+
+    expect(result?.code).toBe(source)
+    expect(result?.issues).toEqual([
+      expect.objectContaining({ severity: 'error', message: expect.stringContaining('declared in another module') }),
+    ])
+  })
+
+  it('should remove the spread objects only the declaration reads', () => {
+    const result = convertSfc(`<script setup lang="ts">
+import type { PropType } from 'vue'
+const sizeProps = { size: String as PropType<'sm' | 'md'> }
+const baseProps = { disabled: Boolean }
+const props = defineProps({ ...sizeProps, ...baseProps })
+console.log(Object.keys(baseProps))
+</script>
+`)
+
+    expect(result?.code).toBe(`<script setup lang="ts">
+const baseProps = { disabled: Boolean }
+type SizeProps = {
+  size?: 'sm' | 'md'
+}
+
+type BaseProps = {
+  disabled?: boolean
+}
+
+const props = defineProps<SizeProps & BaseProps>()
+console.log(Object.keys(baseProps))
+</script>
+`)
+  })
+
+  it('should word the quoted key warning after how the prop is read', () => {
+    const source = `<script setup lang="ts">
+const props = defineProps({ 'data-id': Number, size: { type: String, default: 'md' } })
+</script>
+`
+    const message = (options = {}) => convertSfc(source, options)?.issues[0].message
+
+    expect(message()).toContain('destructured as \'dataId\'')
+    expect(message({ defaultsStyle: 'withDefaults' })).toContain('read as `props[\'data-id\']`')
+  })
+
+  it('should let a prop declared after a spread override the spread one', () => {
+    const result = convertSfc(`<script setup lang="ts">
+const baseProps = { label: { type: String, default: 'base' }, size: String }
+const props = defineProps({ ...baseProps, label: { type: String, default: 'x' } })
+</script>
+`)
+
+    expect(result?.code).toContain(`const {
+  size,
+  label = 'x'
+} = defineProps<Omit<BaseProps, 'label'> & {
+  label?: string
+}>()`)
+    expect(result?.issues).toEqual([])
+  })
+
+  it('should refuse props that can\'t be declared as a type instead of dropping them', () => {
+    const source = `<script setup lang="ts">
+import { sizeProps } from './size'
+defineProps({ ...sizeProps, [name]: String, label: String })
+</script>
+`
+    const result = convertSfc(source)
+
+    expect(result?.converted).toBe(0)
+    expect(result?.code).toBe(source)
+    expect(result?.issues).toEqual([
+      expect.objectContaining({ severity: 'error', start: source.indexOf('[name]'), end: source.indexOf(', label') }),
+      expect.objectContaining({ severity: 'error', start: source.indexOf('...sizeProps'), end: source.indexOf(', [name]') }),
+    ])
+  })
+})
+
+describe('convertOptionsProps', () => {
+  const component = `<script lang="ts">
+import { defineComponent, ref } from 'vue'
+
+export default defineComponent({
+  name: 'Counter',
+  props: {
+    start: { type: Number, default: 0 },
+    size: { type: String, validator: (v: string) => ['sm', 'md'].includes(v) },
+  },
+  emits: ['change'],
+  setup(props, { emit }) {
+    const count = ref(props.start)
+
+    function increment() {
+      emit('change', ++count.value)
+    }
+
+    return { count, increment }
+  },
+})
+</script>
+`
+
+  it('should type the props in place', () => {
+    const source = `<script lang="ts">
+export default {
+  props: {
+    size: { type: String, validator: (v: string) => ['sm', 'md'].includes(v) },
+    title: String,
+  },
+}
+</script>
+`
+    const result = convertOptionsProps(source)
+
+    expect(applyTextChanges(source, result?.changes ?? [])).toBe(`<script lang="ts">
+import { defineComponent, type PropType } from 'vue'
+
+export default defineComponent({
+  props: {
+    size: { type: String as PropType<'sm' | 'md'>, validator: (v: string) => ['sm', 'md'].includes(v) },
+    title: String,
+  },
+})
+</script>
+`)
+  })
+
+  it('should type Object and Array props from their default, and report the others', () => {
+    const source = `<script lang="ts">
+import { defineComponent, type PropType } from 'vue'
+
+export default defineComponent({
+  props: {
+    tags: { type: Array, default: () => ['a', 'b'] },
+    options: { type: Object, default() { return { dense: false } } },
+    items: { type: Array, default: () => [] },
+    config: Object,
+  },
+})
+</script>
+`
+    const result = convertOptionsProps(source)
+    const code = applyTextChanges(source, result?.changes ?? [])
+
+    expect(code).toContain('tags: { type: Array as PropType<string[]>, default: () => [\'a\', \'b\'] }')
+    expect(code).toContain(`options: { type: Object as PropType<{
+      dense: boolean
+    }>, default() {`)
+    expect(code).toContain('items: { type: Array, default: () => [] }')
+    expect(result?.issues.map(issue => [issue.message, source.slice(issue.start, issue.end)])).toEqual([
+      ['Prop \'items\' is typed as \'any[]\', its constructor doesn\'t tell more. Declare its type with a PropType<T> cast.', 'items: { type: Array, default: () => [] }'],
+      ['Prop \'config\' is typed as \'Record<string, any>\', its constructor doesn\'t tell more. Declare its type with a PropType<T> cast.', 'config: Object'],
+    ])
+  })
+
+  it('should move a setup()-only component to <script setup>', () => {
+    const result = convertOptionsProps(component, { optionsApi: 'scriptSetup' })
+
+    expect(result?.moved).toBe(true)
+    expect(applyTextChanges(component, result?.changes ?? [])).toBe(`<script setup lang="ts">
+import { ref } from 'vue'
+
+defineOptions({ name: 'Counter' })
+
+const {
+  start = 0,
+  size
+} = defineProps<{
+  start?: number
+  size?: 'sm' | 'md'
+}>()
+const emit = defineEmits<{
+  change: [...args: any[]]
+}>()
+
+const count = ref(start)
+
+function increment() {
+  emit('change', ++count.value)
+}
+</script>
+`)
+  })
+
+  it('should type components with other options in place, and explain why', () => {
+    const source = component.replace('  emits:', '  components: {},\n  emits:')
+    const result = convertOptionsProps(source, { optionsApi: 'scriptSetup' })
+
+    expect(result?.moved).toBe(false)
+    expect(result?.issues[0].message).toContain('the component has a \'components\' option')
+    expect(applyTextChanges(source, result?.changes ?? [])).toContain('size: { type: String as PropType<\'sm\' | \'md\'>')
+  })
+
+  it('should keep components of scripts with value exports in <script>', () => {
+    const source = component.replace('\nexport default', '\nexport type Size = \'sm\' | \'md\'\nexport const SIZES = [\'sm\', \'md\']\n\nexport default')
+    const result = convertOptionsProps(source, { optionsApi: 'scriptSetup' })
+    const code = applyTextChanges(source, result?.changes ?? [])
+
+    expect(result?.moved).toBe(false)
+    expect(result?.issues[0].message).toContain('the script exports \'export const SIZES = [\'sm\', \'md\']\', <script setup> can\'t contain exports')
+    expect(code).toContain('<script lang="ts">')
+    expect(code).not.toContain('<script setup')
+  })
+})
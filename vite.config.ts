@@ -19,12 +19,16 @@ export default defineConfig({
       ],
       input: {
         extension: resolve(__dirname, 'src/extension.ts'),
+        cli: resolve(__dirname, 'src/cli.ts'),
+        eslint: resolve(__dirname, 'src/eslint.ts'),
       },
       output: {
         entryFileNames: '[name].js',
         format: 'cjs',
         exports: 'named',
         manualChunks: undefined,
+        // Make the CLI entry directly executable
+        banner: chunk => (chunk.name === 'cli' ? '#!/usr/bin/env node' : ''),
         // Stub out missing modules with a function that throws an error
         // This prevents the "Cannot find module" errors at runtime
         intro: `